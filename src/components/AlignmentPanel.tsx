@@ -0,0 +1,123 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group,
+  Ungroup
+} from 'lucide-react';
+import { AlignEdge, AlignTarget, DistributeAxis } from '@/lib/labelAlignment';
+
+interface AlignmentPanelProps {
+  selectedCount: number;
+  // Groups count once, since they move as a unit
+  unitCount: number;
+  canUngroup: boolean;
+  alignTarget: AlignTarget;
+  onAlignTargetChange: (target: AlignTarget) => void;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+const ALIGN_BUTTONS: { edge: AlignEdge; icon: typeof Group; title: string }[] = [
+  { edge: 'left', icon: AlignStartVertical, title: 'Align left edges' },
+  { edge: 'center', icon: AlignCenterVertical, title: 'Align horizontal centers' },
+  { edge: 'right', icon: AlignEndVertical, title: 'Align right edges' },
+  { edge: 'top', icon: AlignStartHorizontal, title: 'Align top edges' },
+  { edge: 'middle', icon: AlignCenterHorizontal, title: 'Align vertical centers' },
+  { edge: 'bottom', icon: AlignEndHorizontal, title: 'Align bottom edges' }
+];
+
+// Arrange tools for the current selection. Shift-click or drag a marquee on
+// the canvas to select several elements.
+export const AlignmentPanel: React.FC<AlignmentPanelProps> = ({
+  selectedCount,
+  unitCount,
+  canUngroup,
+  alignTarget,
+  onAlignTargetChange,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup
+}) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium">Arrange</label>
+      <span className="text-xs text-muted-foreground">
+        {selectedCount} selected
+      </span>
+    </div>
+    <div className="p-3 border border-border rounded-md space-y-3">
+      <div className="flex items-center gap-2 text-xs">
+        <label className="font-medium">Align to</label>
+        <select
+          value={unitCount < 2 ? 'label' : alignTarget}
+          onChange={(e) => onAlignTargetChange(e.target.value as AlignTarget)}
+          disabled={unitCount < 2}
+          className="flex-1 px-2 py-1 border border-border rounded bg-background"
+        >
+          <option value="selection">Selection</option>
+          <option value="label">Label</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {ALIGN_BUTTONS.map(({ edge, icon: Icon, title }) => (
+          <Button key={edge} variant="outline" size="sm" className="h-8 p-0" onClick={() => onAlign(edge)} title={title}>
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-4 gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 p-0"
+          onClick={() => onDistribute('horizontal')}
+          disabled={unitCount < 3}
+          title="Distribute horizontally (3 or more)"
+        >
+          <AlignHorizontalDistributeCenter className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 p-0"
+          onClick={() => onDistribute('vertical')}
+          disabled={unitCount < 3}
+          title="Distribute vertically (3 or more)"
+        >
+          <AlignVerticalDistributeCenter className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 p-0"
+          onClick={onGroup}
+          disabled={unitCount < 2}
+          title="Group"
+        >
+          <Group className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 p-0"
+          onClick={onUngroup}
+          disabled={!canUngroup}
+          title="Ungroup"
+        >
+          <Ungroup className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  </div>
+);
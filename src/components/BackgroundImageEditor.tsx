@@ -0,0 +1,166 @@
+import React, { useRef } from 'react';
+import { ImageElement } from '@/types/label';
+import { getBackgroundPlacement, normalizeRotation, panBackground, toCssTransform, zoomBackground } from '@/lib/imageTransform';
+import { getRotatedBounds } from '@/lib/labelAlignment';
+import { SnapMove } from '@/lib/labelSnapping';
+import { PinchChange, joinPinch, trackPointerDrag } from '@/lib/pointerGestures';
+import { RotateHandle } from './RotateHandle';
+
+interface BackgroundImageEditorProps {
+  image: ImageElement;
+  canvasWidth: number;
+  canvasHeight: number;
+  // Screen pixels per design unit at the current zoom, to turn pointer
+  // movement into label units
+  scale: number;
+  isSelected: boolean;
+  // Handles sit above every element so they stay reachable
+  handlesZIndex: number;
+  onImageChange: (image: ImageElement) => void;
+  // Bracket a drag so it can be undone as one step
+  onChangeStart?: () => void;
+  onChangeEnd?: () => void;
+  onSelect: () => void;
+  onAdjust: () => void;
+  // Called as a drag starts, for what pulls it onto nearby guides; holding
+  // Alt drags freely
+  createSnap?: () => SnapMove | undefined;
+}
+
+// Outline of the whole background photo, placed exactly as the renderer draws
+// it. Click to select, then drag to pan or pinch to zoom and turn; the handles
+// rotate and zoom around the label center. Until selected it lets drags through for marquee selection.
+export const BackgroundImageEditor: React.FC<BackgroundImageEditorProps> = ({
+  image,
+  canvasWidth,
+  canvasHeight,
+  scale,
+  isSelected,
+  handlesZIndex,
+  onImageChange,
+  onChangeStart,
+  onChangeEnd,
+  onSelect,
+  onAdjust,
+  createSnap
+}) => {
+  const handlesRef = useRef<HTMLDivElement>(null);
+  const size = { width: canvasWidth, height: canvasHeight };
+  const placement = getBackgroundPlacement(image, size);
+
+  // The handles layer covers the label, so its center is the pivot
+  const getLabelCenter = () => {
+    const rect = handlesRef.current!.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+
+  // Where the whole photo sits on the label, as drawn
+  const getPhotoBounds = (photo: ImageElement) => {
+    const { cropCenterX, cropCenterY, scaleX, scaleY, flip } = getBackgroundPlacement(photo, size);
+    // A flipped photo mirrors around the crop center
+    const left = flip.x < 0 ? photo.originalWidth - cropCenterX : cropCenterX;
+    const top = flip.y < 0 ? photo.originalHeight - cropCenterY : cropCenterY;
+    const box = {
+      x: canvasWidth / 2 - left * scaleX,
+      y: canvasHeight / 2 - top * scaleY,
+      width: photo.originalWidth * scaleX,
+      height: photo.originalHeight * scaleY
+    };
+    return getRotatedBounds(box, { x: canvasWidth / 2, y: canvasHeight / 2 }, photo.rotation);
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: 'move' | 'zoom') => {
+    if (mode === 'move' && joinPinch(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect();
+    onChangeStart?.();
+
+    const start = { ...image };
+    const snapMove = mode === 'move' ? createSnap?.() : undefined;
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const center = getLabelCenter();
+    const startDistance = Math.hypot(startX - center.x, startY - center.y);
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (mode === 'move') {
+        const dx = (moveEvent.clientX - startX) / scale;
+        const dy = (moveEvent.clientY - startY) / scale;
+        const panned = panBackground(start, size, dx, dy);
+        // Panning moves the photo with the pointer, so a snap correction is
+        // just more pan
+        const snap = snapMove && !moveEvent.altKey ? snapMove(getPhotoBounds(panned)) : { dx: 0, dy: 0 };
+        onImageChange(snap.dx || snap.dy ? panBackground(start, size, dx + snap.dx, dy + snap.dy) : panned);
+      } else {
+        const distance = Math.hypot(moveEvent.clientX - center.x, moveEvent.clientY - center.y);
+        onImageChange(zoomBackground(start, Math.max(distance, 1) / Math.max(startDistance, 1)));
+      }
+    };
+
+    // Two fingers zoom and turn the photo around the label center, and pan it
+    // with their midpoint
+    const handlePinch = ({ scale: spread, rotation, dx, dy }: PinchChange) => {
+      const zoomed = zoomBackground(start, spread);
+      const turned = { ...zoomed, rotation: normalizeRotation(start.rotation + rotation) };
+      onImageChange(panBackground(turned, size, dx / scale, dy / scale));
+    };
+
+    trackPointerDrag(e, {
+      onMove: handleMove,
+      onPinch: mode === 'move' ? handlePinch : undefined,
+      onEnd: () => onChangeEnd?.()
+    });
+  };
+
+  return (
+    <>
+      <div
+        className={`absolute cursor-move ${isSelected ? 'border-2 border-blue-500 touch-none' : ''}`}
+        style={{
+          left: canvasWidth / 2 - placement.cropCenterX * placement.scaleX,
+          top: canvasHeight / 2 - placement.cropCenterY * placement.scaleY,
+          width: image.originalWidth * placement.scaleX,
+          height: image.originalHeight * placement.scaleY,
+          transformOrigin: `${placement.cropCenterX * placement.scaleX}px ${placement.cropCenterY * placement.scaleY}px`,
+          transform: toCssTransform(image.rotation, placement.flip),
+          zIndex: 1
+        }}
+        onPointerDown={(e) => {
+          if (isSelected) startDrag(e, 'move');
+        }}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (!isSelected) onSelect();
+        }}
+        onDoubleClick={onAdjust}
+        data-marquee-surface={isSelected ? undefined : true}
+        title={isSelected ? 'Drag to move the background, double-click to adjust' : 'Click to select the background'}
+      />
+      <div
+        ref={handlesRef}
+        className="absolute inset-0 pointer-events-none"
+        style={{ zIndex: handlesZIndex }}
+      >
+        {isSelected && (
+          <>
+            <RotateHandle
+              rotation={image.rotation}
+              getPivot={getLabelCenter}
+              onRotate={(rotation) => onImageChange({ ...image, rotation })}
+              onChangeStart={onChangeStart}
+              onChangeEnd={onChangeEnd}
+              className="pointer-events-auto left-1/2 top-2 -ml-1.5"
+            />
+            <div
+              className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-nwse-resize pointer-events-auto touch-none"
+              onPointerDown={(e) => startDrag(e, 'zoom')}
+              onClick={(e) => e.stopPropagation()}
+              title="Drag to zoom the background"
+            />
+          </>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Grid3x3, Magnet, Ruler } from 'lucide-react';
+import { CanvasGuideSettings, GRID_SIZE_OPTIONS, RulerUnit } from '@/lib/labelSnapping';
+
+interface CanvasGuidesControlsProps {
+  settings: CanvasGuideSettings;
+  onSettingsChange: (settings: CanvasGuideSettings) => void;
+}
+
+const ToggleButton: React.FC<{
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ active, title, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`h-8 px-2 flex items-center gap-1 rounded border text-xs ${
+      active ? 'bg-primary text-primary-foreground border-primary' : 'border-border bg-background hover:bg-muted'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+// Snapping, rulers and grid for the design canvas
+export const CanvasGuidesControls: React.FC<CanvasGuidesControlsProps> = ({ settings, onSettingsChange }) => {
+  const update = (changes: Partial<CanvasGuideSettings>) => onSettingsChange({ ...settings, ...changes });
+  const gridOptions = GRID_SIZE_OPTIONS[settings.rulerUnit];
+
+  // Switching units picks the matching middle grid unless the current one is offered
+  const changeUnit = (rulerUnit: RulerUnit) => {
+    const options = GRID_SIZE_OPTIONS[rulerUnit];
+    const gridSize = options.some(option => option.size === settings.gridSize)
+      ? settings.gridSize
+      : options[Math.floor(options.length / 2)].size;
+    update({ rulerUnit, gridSize });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <ToggleButton active={settings.snap} title="Snap to guides" onClick={() => update({ snap: !settings.snap })}>
+        <Magnet className="w-4 h-4" />
+      </ToggleButton>
+      <ToggleButton
+        active={settings.showRulers}
+        title="Show rulers"
+        onClick={() => update({ showRulers: !settings.showRulers })}
+      >
+        <Ruler className="w-4 h-4" />
+      </ToggleButton>
+      <ToggleButton active={settings.showGrid} title="Show grid" onClick={() => update({ showGrid: !settings.showGrid })}>
+        <Grid3x3 className="w-4 h-4" />
+      </ToggleButton>
+      <select
+        value={settings.rulerUnit}
+        onChange={(e) => changeUnit(e.target.value as RulerUnit)}
+        className="h-8 px-1 text-xs border border-border rounded bg-background"
+        title="Ruler and grid units"
+      >
+        <option value="in">in</option>
+        <option value="mm">mm</option>
+      </select>
+      {settings.showGrid && (
+        <select
+          value={settings.gridSize}
+          onChange={(e) => update({ gridSize: parseFloat(e.target.value) })}
+          className="h-8 px-1 text-xs border border-border rounded bg-background"
+          title="Grid spacing"
+        >
+          {!gridOptions.some(option => option.size === settings.gridSize) && (
+            <option value={settings.gridSize}>Custom</option>
+          )}
+          {gridOptions.map(option => (
+            <option key={option.label} value={option.size}>{option.label}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { DesignSize } from '@/lib/labelLayout';
+import { RULER_SIZE, RulerUnit, getRulerTicks } from '@/lib/labelSnapping';
+
+interface CanvasRulersProps {
+  size: DesignSize;
+  unit: RulerUnit;
+}
+
+const TICK_LENGTHS = { major: RULER_SIZE, medium: RULER_SIZE / 2, minor: RULER_SIZE / 4 };
+
+// Top and left rulers, hung just outside the label so they never cover it.
+// Positions are in design units, so they match the overlay one to one.
+export const CanvasRulers: React.FC<CanvasRulersProps> = ({ size, unit }) => {
+  const horizontal = getRulerTicks(size.width, unit);
+  const vertical = getRulerTicks(size.height, unit);
+
+  return (
+    <>
+      <svg
+        className="absolute left-0 pointer-events-none text-muted-foreground bg-muted/60"
+        style={{ top: -RULER_SIZE, width: size.width, height: RULER_SIZE }}
+      >
+        {horizontal.map(tick => (
+          <g key={tick.position}>
+            <line
+              x1={tick.position}
+              x2={tick.position}
+              y1={RULER_SIZE - TICK_LENGTHS[tick.size]}
+              y2={RULER_SIZE}
+              stroke="currentColor"
+              strokeWidth={1}
+            />
+            {tick.label && tick.position > 0 && (
+              <text x={tick.position + 2} y={9} fontSize={9} fill="currentColor">{tick.label}</text>
+            )}
+          </g>
+        ))}
+      </svg>
+      <svg
+        className="absolute top-0 pointer-events-none text-muted-foreground bg-muted/60"
+        style={{ left: -RULER_SIZE, width: RULER_SIZE, height: size.height }}
+      >
+        {vertical.map(tick => (
+          <g key={tick.position}>
+            <line
+              x1={RULER_SIZE - TICK_LENGTHS[tick.size]}
+              x2={RULER_SIZE}
+              y1={tick.position}
+              y2={tick.position}
+              stroke="currentColor"
+              strokeWidth={1}
+            />
+            {tick.label && tick.position > 0 && (
+              <text x={2} y={tick.position + 10} fontSize={9} fill="currentColor">{tick.label}</text>
+            )}
+          </g>
+        ))}
+      </svg>
+      <span
+        className="absolute text-[9px] leading-none text-muted-foreground pointer-events-none flex items-center justify-center"
+        style={{ left: -RULER_SIZE, top: -RULER_SIZE, width: RULER_SIZE, height: RULER_SIZE }}
+      >
+        {unit}
+      </span>
+    </>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { CanvasZoom, MAX_ZOOM, MIN_ZOOM, stepZoom } from '@/lib/canvasViewport';
+
+interface CanvasZoomControlsProps {
+  zoom: CanvasZoom;
+  // The scale actually in use, which for 'fit' depends on the window
+  scale: number;
+  onZoomChange: (zoom: CanvasZoom) => void;
+}
+
+const ZOOM_PRESETS = [0.5, 1, 2];
+
+const formatPercent = (scale: number) => `${Math.round(scale * 100)}%`;
+
+// Zoom out and in, plus fit-to-window and fixed presets. Ctrl+scroll zooms
+// around the pointer too.
+export const CanvasZoomControls: React.FC<CanvasZoomControlsProps> = ({ zoom, scale, onZoomChange }) => {
+  const buttonClass =
+    'h-8 w-8 flex items-center justify-center rounded border border-border bg-background hover:bg-muted disabled:opacity-50';
+  const isPreset = zoom !== 'fit' && ZOOM_PRESETS.includes(zoom);
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        type="button"
+        className={buttonClass}
+        onClick={() => onZoomChange(stepZoom(scale, -1))}
+        disabled={scale <= MIN_ZOOM}
+        title="Zoom out (Ctrl+scroll)"
+      >
+        <ZoomOut className="w-4 h-4" />
+      </button>
+      <select
+        value={zoom === 'fit' ? 'fit' : String(zoom)}
+        onChange={(e) => onZoomChange(e.target.value === 'fit' ? 'fit' : parseFloat(e.target.value))}
+        className="h-8 px-1 text-xs border border-border rounded bg-background"
+        title="Zoom"
+      >
+        <option value="fit">{zoom === 'fit' ? `Fit (${formatPercent(scale)})` : 'Fit'}</option>
+        {!isPreset && zoom !== 'fit' && <option value={String(zoom)}>{formatPercent(zoom)}</option>}
+        {ZOOM_PRESETS.map(preset => (
+          <option key={preset} value={String(preset)}>{formatPercent(preset)}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className={buttonClass}
+        onClick={() => onZoomChange(stepZoom(scale, 1))}
+        disabled={scale >= MAX_ZOOM}
+        title="Zoom in (Ctrl+scroll)"
+      >
+        <ZoomIn className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
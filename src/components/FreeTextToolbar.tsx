@@ -2,7 +2,11 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { FontSelector } from './FontSelector';
 import { ColorPicker } from './ColorPicker';
-import { TextBox } from '@/types/label';
+import { TextTransformControls } from './TextTransformControls';
+import { TextStyleControls } from './TextStyleControls';
+import { TextEffectsControls } from './TextEffectsControls';
+import { TextBox, TextOverflow } from '@/types/label';
+import { getTextBoxStyle } from '@/lib/labelLayout';
 
 interface FreeTextToolbarProps {
   selectedTextBox: TextBox;
@@ -10,6 +14,7 @@ interface FreeTextToolbarProps {
   onFontChange: (font: string) => void;
   onColorChange: (color: string) => void;
   onFontSizeChange: (size: number) => void;
+  onTextBoxChange: (textBox: TextBox) => void;
   onDelete: () => void;
   isVisible: boolean;
 }
@@ -20,6 +25,7 @@ export const FreeTextToolbar: React.FC<FreeTextToolbarProps> = ({
   onFontChange,
   onColorChange,
   onFontSizeChange,
+  onTextBoxChange,
   onDelete,
   isVisible
 }) => {
@@ -27,7 +33,7 @@ export const FreeTextToolbar: React.FC<FreeTextToolbarProps> = ({
 
   // Calculate toolbar position - above the text box
   const toolbarWidth = 320;
-  const toolbarHeight = 120;
+  const toolbarHeight = selectedTextBox.type === 'freeText' ? 450 : 390;
   
   let toolbarX = position.x;
   let toolbarY = position.y;
@@ -57,6 +63,7 @@ export const FreeTextToolbar: React.FC<FreeTextToolbarProps> = ({
           size="sm"
           onClick={onDelete}
           className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+          title="Delete (Del)"
         >
           ×
         </Button>
@@ -81,10 +88,54 @@ export const FreeTextToolbar: React.FC<FreeTextToolbarProps> = ({
           max="48"
           value={selectedTextBox.fontSize}
           onChange={(e) => onFontSizeChange(parseInt(e.target.value))}
+          // Auto-fit picks the size from the box instead
+          disabled={selectedTextBox.overflow === 'fit'}
           className="flex-1"
         />
         <span className="text-xs text-muted-foreground w-10">{selectedTextBox.fontSize}px</span>
       </div>
+
+      <div className="flex items-center gap-2 mt-3 text-xs">
+        <label className="font-medium whitespace-nowrap">Overflow:</label>
+        <select
+          value={selectedTextBox.overflow || 'visible'}
+          onChange={(e) => onTextBoxChange({ ...selectedTextBox, overflow: e.target.value as TextOverflow })}
+          className="flex-1 px-2 py-1 border border-border rounded bg-background"
+        >
+          <option value="visible">Show all</option>
+          <option value="shrink">Shrink to fit</option>
+          <option value="clip">Clip</option>
+          <option value="ellipsis">Ellipsis (…)</option>
+          <option value="fit">Auto-fit to box</option>
+        </select>
+      </div>
+
+      <div className="mt-3">
+        <TextStyleControls
+          style={getTextBoxStyle(selectedTextBox)}
+          onStyleChange={(style) => onTextBoxChange({ ...selectedTextBox, style })}
+        />
+      </div>
+
+      <div className="mt-3">
+        <TextEffectsControls
+          effects={selectedTextBox.effects || {}}
+          onEffectsChange={(effects) => onTextBoxChange({ ...selectedTextBox, effects })}
+        />
+      </div>
+
+      <div className="mt-3">
+        <TextTransformControls
+          rotation={selectedTextBox.rotation || 0}
+          onRotationChange={(rotation) => onTextBoxChange({ ...selectedTextBox, rotation })}
+          warp={selectedTextBox.warp}
+          onWarpChange={
+            selectedTextBox.type === 'freeText'
+              ? (warp) => onTextBoxChange({ ...selectedTextBox, warp })
+              : undefined
+          }
+        />
+      </div>
     </div>
   );
 };
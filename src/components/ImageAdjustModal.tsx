@@ -1,31 +1,50 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Slider } from './ui/slider';
-import { ZoomIn, ZoomOut, Check, X } from 'lucide-react';
+import { ZoomIn, ZoomOut, Check, X, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2 } from 'lucide-react';
 import { ImageElement } from '@/types/label';
+import { getFlipScale, normalizeRotation, toCssTransform, unrotate } from '@/lib/imageTransform';
+import { joinPinch, trackPointerDrag } from '@/lib/pointerGestures';
 
 interface ImageAdjustModalProps {
   imageUrl: string;
   onConfirm: (imageElement: ImageElement) => void;
   onCancel: () => void;
+  // Size of the crop frame; the label for backgrounds, the box for image elements
   canvasWidth: number;
   canvasHeight: number;
+  // Crop to start from when re-cropping, in source image pixels
+  initialCrop?: { x: number; y: number; width: number; height: number };
+  initialTransform?: { rotation: number; flipX?: boolean; flipY?: boolean };
+  // Image elements rotate as a whole box on the canvas instead
+  allowRotation?: boolean;
 }
 
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 5;
+
 export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
   imageUrl,
   onConfirm,
   onCancel,
   canvasWidth,
-  canvasHeight
+  canvasHeight,
+  initialCrop,
+  initialTransform,
+  allowRotation = true
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  const shiftKeyRef = useRef(false);
 
+  // The crop center (in source pixels) always sits at the frame center, and the
+  // image is flipped and rotated around it - the same model the renderer uses
   const [zoom, setZoom] = useState<number>(1);
-  const [position, setPosition] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
+  const [center, setCenter] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
+  const [rotation, setRotation] = useState(initialTransform?.rotation || 0);
+  const [flipX, setFlipX] = useState(!!initialTransform?.flipX);
+  const [flipY, setFlipY] = useState(!!initialTransform?.flipY);
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [dragStart, setDragStart] = useState<{ x: number, y: number }>({ x: 0, y: 0 });
   const [imageNaturalSize, setImageNaturalSize] = useState<{ width: number, height: number }>({ width: 0, height: 0 });
 
   // When image loads, set its natural size and set initial zoom to fit image
@@ -34,105 +53,77 @@ export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
     img.onload = () => {
       setImageNaturalSize({ width: img.width, height: img.height });
 
+      if (initialCrop) {
+        setZoom(canvasWidth / initialCrop.width);
+        setCenter({ x: initialCrop.x + initialCrop.width / 2, y: initialCrop.y + initialCrop.height / 2 });
+        return;
+      }
+
       // Set initial zoom to fit image within canvas while maintaining aspect ratio
       const scaleX = canvasWidth / img.width;
       const scaleY = canvasHeight / img.height;
-      const initialZoom = Math.min(scaleX, scaleY);
-      setZoom(initialZoom);
+      setZoom(Math.min(scaleX, scaleY));
 
       // Center image both horizontally and vertically
-      const displayWidth = img.width * initialZoom;
-      const displayHeight = img.height * initialZoom;
-      setPosition({
-        x: (canvasWidth - displayWidth) / 2,
-        y: (canvasHeight - displayHeight) / 2
-      });
+      setCenter({ x: img.width / 2, y: img.height / 2 });
     };
     img.src = imageUrl;
-  }, [imageUrl, canvasWidth, canvasHeight]);
+  }, [imageUrl, canvasWidth, canvasHeight, initialCrop]);
 
-  // Drag logic
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Drag logic: screen movement is turned back into the image's own axes.
+  // Two fingers zoom and turn the image as well.
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (joinPinch(e)) return;
+    e.preventDefault();
     setIsDragging(true);
-    setDragStart({
-      x: e.clientX - position.x,
-      y: e.clientY - position.y
-    });
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
-    const newX = e.clientX - dragStart.x;
-    const newY = e.clientY - dragStart.y;
-
-    // Allow free movement (image can exceed boundaries when zoomed in)
-    setPosition({ x: newX, y: newY });
-  };
-
-  const handleMouseUp = () => setIsDragging(false);
-
-  // For dragging outside crop area
-  useEffect(() => {
-    const handleGlobalMouseMove = (e: MouseEvent) => {
-      if (!isDragging) return;
-      const newX = e.clientX - dragStart.x;
-      const newY = e.clientY - dragStart.y;
 
+    const start = { x: e.clientX, y: e.clientY, center, zoom, rotation };
+    const moveCenter = (dx: number, dy: number, atZoom: number, atRotation: number) => {
+      const local = unrotate(dx, dy, atRotation);
       // Allow free movement (image can exceed boundaries when zoomed in)
-      setPosition({ x: newX, y: newY });
-    };
-    const handleGlobalMouseUp = () => setIsDragging(false);
-
-    if (isDragging) {
-      window.addEventListener('mousemove', handleGlobalMouseMove);
-      window.addEventListener('mouseup', handleGlobalMouseUp);
-    }
-    return () => {
-      window.removeEventListener('mousemove', handleGlobalMouseMove);
-      window.removeEventListener('mouseup', handleGlobalMouseUp);
+      setCenter({
+        x: start.center.x - (local.x * (flipX ? -1 : 1)) / atZoom,
+        y: start.center.y - (local.y * (flipY ? -1 : 1)) / atZoom
+      });
     };
-  }, [isDragging, dragStart]);
 
-  // Zoom handler: maintain center point while allowing proportional scaling
+    trackPointerDrag(e, {
+      onMove: (moveEvent) => moveCenter(moveEvent.clientX - start.x, moveEvent.clientY - start.y, start.zoom, start.rotation),
+      onPinch: ({ scale, rotation: turn, dx, dy }) => {
+        const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, start.zoom * scale));
+        const newRotation = allowRotation ? normalizeRotation(start.rotation + turn) : start.rotation;
+        setZoom(newZoom);
+        setRotation(newRotation);
+        moveCenter(dx, dy, newZoom, newRotation);
+      },
+      onEnd: () => setIsDragging(false)
+    });
+  };
+
+  // Zooming keeps the crop center in place
   const handleZoomChange = (newZoomArr: number[]) => {
-    const newZoom = newZoomArr[0];
-    
-    // Calculate the center point of the visible area to maintain
-    const oldDisplayWidth = imageNaturalSize.width * zoom;
-    const oldDisplayHeight = imageNaturalSize.height * zoom;
-    const centerX = -position.x + canvasWidth / 2;
-    const centerY = -position.y + canvasHeight / 2;
-    const relativeCenterX = centerX / oldDisplayWidth;
-    const relativeCenterY = centerY / oldDisplayHeight;
-
-    // Calculate new dimensions and position
-    const newDisplayWidth = imageNaturalSize.width * newZoom;
-    const newDisplayHeight = imageNaturalSize.height * newZoom;
-    const newCenterX = relativeCenterX * newDisplayWidth;
-    const newCenterY = relativeCenterY * newDisplayHeight;
-    
-    const newX = canvasWidth / 2 - newCenterX;
-    const newY = canvasHeight / 2 - newCenterY;
-
-    setZoom(newZoom);
-    setPosition({ x: newX, y: newY });
+    setZoom(newZoomArr[0]);
+  };
+
+  const handleRotationChange = (value: number[]) => {
+    setRotation(normalizeRotation(value[0], shiftKeyRef.current));
   };
 
   // Confirm: output crop info for rendering/export
   const handleConfirm = () => {
     // Calculate cropping rectangle in original image coordinates
-    const sx = Math.round(-position.x / zoom);
-    const sy = Math.round(-position.y / zoom);
     const sWidth = Math.round(canvasWidth / zoom);
     const sHeight = Math.round(canvasHeight / zoom);
 
     const imageElement: ImageElement = {
       url: imageUrl,
-      x: sx,
-      y: sy,
+      x: Math.round(center.x - sWidth / 2),
+      y: Math.round(center.y - sHeight / 2),
       width: sWidth,
       height: sHeight,
-      rotation: 0,
+      rotation: allowRotation ? rotation : 0,
+      flipX,
+      flipY,
       originalWidth: imageNaturalSize.width,
       originalHeight: imageNaturalSize.height
     };
@@ -146,7 +137,7 @@ export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
         <div className="p-4 border-b">
           <h2 className="text-xl font-bold">Adjust Image</h2>
           <p className="text-sm text-muted-foreground mt-1">
-            Position and zoom your image to fit the label. Drag to reposition, use the slider to zoom.
+            Position, zoom, rotate and flip your image to fit the label. Drag to reposition, use the sliders or pinch to zoom and rotate.
           </p>
         </div>
         {/* Main content */}
@@ -154,15 +145,13 @@ export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
           <div className="flex justify-center">
             <div
               ref={containerRef}
-              className="relative border-2 border-muted overflow-hidden bg-muted/10"
+              className="relative border-2 border-muted overflow-hidden bg-muted/10 touch-none"
               style={{
                 width: canvasWidth,
                 height: canvasHeight,
                 cursor: isDragging ? 'grabbing' : 'grab'
               }}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
+              onPointerDown={handlePointerDown}
             >
               {imageUrl && (
                 <img
@@ -174,8 +163,10 @@ export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
                     position: 'absolute',
                     width: `${imageNaturalSize.width * zoom}px`,
                     height: `${imageNaturalSize.height * zoom}px`,
-                    left: `${position.x}px`,
-                    top: `${position.y}px`,
+                    left: `${canvasWidth / 2 - center.x * zoom}px`,
+                    top: `${canvasHeight / 2 - center.y * zoom}px`,
+                    transformOrigin: `${center.x * zoom}px ${center.y * zoom}px`,
+                    transform: toCssTransform(allowRotation ? rotation : 0, getFlipScale({ flipX, flipY })),
                     userSelect: 'none',
                     pointerEvents: 'none'
                   }}
@@ -189,14 +180,69 @@ export const ImageAdjustModal: React.FC<ImageAdjustModalProps> = ({
             <ZoomOut className="w-4 h-4 flex-shrink-0" />
             <Slider
               value={[zoom]}
-              min={0.25}
-              max={5}
+              min={MIN_ZOOM}
+              max={MAX_ZOOM}
               step={0.01}
               className="flex-1"
               onValueChange={handleZoomChange}
             />
             <ZoomIn className="w-4 h-4 flex-shrink-0" />
           </div>
+          {/* Rotation and flip controls */}
+          <div className="flex items-center justify-center gap-2 max-w-md mx-auto">
+            {allowRotation && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRotation(normalizeRotation(rotation - 90))}
+                  title="Rotate 90° left"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+                {/* Shift while dragging snaps to 15° */}
+                <div
+                  className="flex-1"
+                  onPointerDownCapture={(e) => { shiftKeyRef.current = e.shiftKey; }}
+                  onPointerMoveCapture={(e) => { shiftKeyRef.current = e.shiftKey; }}
+                  onKeyDownCapture={(e) => { shiftKeyRef.current = e.shiftKey; }}
+                >
+                  <Slider
+                    value={[rotation]}
+                    min={-180}
+                    max={180}
+                    step={1}
+                    onValueChange={handleRotationChange}
+                  />
+                </div>
+                <span className="text-xs text-muted-foreground w-10 text-right">{Math.round(rotation)}°</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRotation(normalizeRotation(rotation + 90))}
+                  title="Rotate 90° right"
+                >
+                  <RotateCw className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant={flipX ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFlipX(!flipX)}
+              title="Flip horizontally"
+            >
+              <FlipHorizontal2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={flipY ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFlipY(!flipY)}
+              title="Flip vertically"
+            >
+              <FlipVertical2 className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
         {/* Footer */}
         <div className="p-4 border-t flex justify-end space-x-2">
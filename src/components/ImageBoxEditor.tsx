@@ -0,0 +1,163 @@
+import React, { useRef } from 'react';
+import { ImageBox } from '@/types/label';
+import { normalizeRotation, rotate, unrotate } from '@/lib/imageTransform';
+import { getRotatedBounds } from '@/lib/labelAlignment';
+import { SnapMove } from '@/lib/labelSnapping';
+import { PinchChange, joinPinch, trackPointerDrag } from '@/lib/pointerGestures';
+import { RotateHandle } from './RotateHandle';
+
+interface ImageBoxEditorProps {
+  imageBox: ImageBox;
+  canvasWidth: number;
+  canvasHeight: number;
+  // Screen pixels per design unit at the current zoom, to turn pointer
+  // movement into label units
+  scale: number;
+  isSelected: boolean;
+  zIndex: number;
+  onImageBoxChange: (imageBox: ImageBox) => void;
+  // Bracket a drag so it can be undone as one step
+  onChangeStart?: () => void;
+  onChangeEnd?: () => void;
+  // Additive when Shift is held, to build up a multi-selection
+  onSelect: (additive: boolean) => void;
+  // Called as a drag starts, for what pulls it onto nearby guides; holding
+  // Alt drags freely
+  createSnap?: () => SnapMove | undefined;
+}
+
+const MIN_SIZE = 20;
+
+// Drag/resize hit area over an image element - the image itself is drawn on
+// the canvas, in stacking order
+export const ImageBoxEditor: React.FC<ImageBoxEditorProps> = ({
+  imageBox,
+  canvasWidth,
+  canvasHeight,
+  scale,
+  isSelected,
+  zIndex,
+  onImageBoxChange,
+  onChangeStart,
+  onChangeEnd,
+  onSelect,
+  createSnap
+}) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  // The bounding box of a rotated element is centered on the element
+  const getCenter = () => {
+    const rect = boxRef.current!.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: 'move' | 'resize') => {
+    if (mode === 'move' && joinPinch(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(e.shiftKey);
+    onChangeStart?.();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const start = { ...imageBox };
+    const snapMove = createSnap?.();
+    const aspectRatio = start.width / start.height;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const deltaX = (moveEvent.clientX - startX) / scale;
+      const deltaY = (moveEvent.clientY - startY) / scale;
+
+      if (mode === 'move') {
+        let x = start.x + deltaX;
+        let y = start.y + deltaY;
+        if (snapMove && !moveEvent.altKey) {
+          const box = { x, y, width: start.width, height: start.height };
+          const snap = snapMove(getRotatedBounds(box, { x: x + start.width / 2, y: y + start.height / 2 }, start.rotation));
+          x += snap.dx;
+          y += snap.dy;
+        }
+        // Images may hang off the edge (bleeds, partial badges) but not leave entirely
+        onImageBoxChange({
+          ...start,
+          x: Math.max(MIN_SIZE - start.width, Math.min(canvasWidth - MIN_SIZE, x)),
+          y: Math.max(MIN_SIZE - start.height, Math.min(canvasHeight - MIN_SIZE, y))
+        });
+      } else {
+        // Keep the crop's aspect ratio so the image never stretches, and keep
+        // the opposite corner where it is on screen even when rotated
+        const local = unrotate(deltaX, deltaY, start.rotation);
+        const width = Math.max(MIN_SIZE, start.width + local.x);
+        const height = width / aspectRatio;
+        const corner = rotate(-start.width / 2, -start.height / 2, start.rotation);
+        const center = rotate(width / 2, height / 2, start.rotation);
+        const centerX = start.x + start.width / 2 + corner.x + center.x;
+        const centerY = start.y + start.height / 2 + corner.y + center.y;
+        onImageBoxChange({
+          ...start,
+          x: centerX - width / 2,
+          y: centerY - height / 2,
+          width,
+          height
+        });
+      }
+    };
+
+    // Two fingers scale and turn the image around its center
+    const handlePinch = ({ scale: spread, rotation, dx, dy }: PinchChange) => {
+      const width = Math.max(MIN_SIZE, start.width * spread);
+      const height = width / aspectRatio;
+      onImageBoxChange({
+        ...start,
+        x: start.x + start.width / 2 + dx / scale - width / 2,
+        y: start.y + start.height / 2 + dy / scale - height / 2,
+        width,
+        height,
+        rotation: normalizeRotation(start.rotation + rotation)
+      });
+    };
+
+    trackPointerDrag(e, {
+      onMove: handleMove,
+      onPinch: mode === 'move' ? handlePinch : undefined,
+      onEnd: () => onChangeEnd?.()
+    });
+  };
+
+  return (
+    <div
+      ref={boxRef}
+      className={`absolute cursor-move touch-none ${
+        isSelected ? 'border-2 border-blue-500' : 'border border-transparent hover:border-blue-300'
+      }`}
+      style={{
+        left: imageBox.x,
+        top: imageBox.y,
+        width: imageBox.width,
+        height: imageBox.height,
+        transform: imageBox.rotation ? `rotate(${imageBox.rotation}deg)` : undefined,
+        zIndex
+      }}
+      onPointerDown={(e) => startDrag(e, 'move')}
+      onClick={(e) => e.stopPropagation()}
+      title="Drag to move image"
+    >
+      {isSelected && (
+        <>
+          <div
+            className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize touch-none"
+            onPointerDown={(e) => startDrag(e, 'resize')}
+          />
+          <RotateHandle
+            rotation={imageBox.rotation}
+            getPivot={getCenter}
+            onRotate={(rotation) => onImageBoxChange({ ...imageBox, rotation })}
+            onChangeStart={onChangeStart}
+            onChangeEnd={onChangeEnd}
+            className="left-1/2 -top-6 -ml-1.5"
+          />
+        </>
+      )}
+    </div>
+  );
+};
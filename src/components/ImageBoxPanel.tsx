@@ -0,0 +1,92 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowUp, ArrowDown, Crop, FlipHorizontal2, FlipVertical2, Trash2 } from 'lucide-react';
+import { normalizeRotation } from '@/lib/imageTransform';
+import { ImageBox } from '@/types/label';
+
+interface ImageBoxPanelProps {
+  imageBox: ImageBox;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onImageBoxChange: (imageBox: ImageBox) => void;
+  onCrop: () => void;
+  onMove: (direction: 1 | -1) => void;
+  onDelete: () => void;
+}
+
+// Settings for the selected image element
+export const ImageBoxPanel: React.FC<ImageBoxPanelProps> = ({
+  imageBox,
+  canMoveUp,
+  canMoveDown,
+  onImageBoxChange,
+  onCrop,
+  onMove,
+  onDelete
+}) => (
+  <div className="space-y-2">
+    <label className="text-sm font-medium">Selected Image</label>
+    <div className="p-3 border rounded-md bg-blue-50 border-blue-300 space-y-3 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="font-medium w-16">Opacity</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(imageBox.opacity * 100)}
+          onChange={(e) => onImageBoxChange({ ...imageBox, opacity: parseInt(e.target.value) / 100 })}
+          className="flex-1"
+        />
+        <span className="text-muted-foreground w-10">{Math.round(imageBox.opacity * 100)}%</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="font-medium w-16">Rotation</span>
+        <input
+          type="number"
+          min="-180"
+          max="180"
+          value={Math.round(imageBox.rotation)}
+          onChange={(e) => onImageBoxChange({ ...imageBox, rotation: normalizeRotation(parseInt(e.target.value) || 0) })}
+          className="w-16 px-2 py-1 border border-border rounded bg-background"
+        />
+        <span className="text-muted-foreground">degrees</span>
+      </div>
+      <div className="grid grid-cols-6 gap-2">
+        <Button variant="outline" size="sm" onClick={onCrop} title="Crop image">
+          <Crop className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={imageBox.flipX ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onImageBoxChange({ ...imageBox, flipX: !imageBox.flipX })}
+          title="Flip horizontally"
+        >
+          <FlipHorizontal2 className="w-3 h-3" />
+        </Button>
+        <Button
+          variant={imageBox.flipY ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onImageBoxChange({ ...imageBox, flipY: !imageBox.flipY })}
+          title="Flip vertically"
+        >
+          <FlipVertical2 className="w-3 h-3" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onMove(1)} disabled={!canMoveUp} title="Bring forward">
+          <ArrowUp className="w-3 h-3" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onMove(-1)} disabled={!canMoveDown} title="Send backward">
+          <ArrowDown className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDelete}
+          className="text-destructive hover:text-destructive"
+          title="Delete image"
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  </div>
+);
@@ -1,311 +1,257 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, Image, Plus, Trash2, Type, X, FileText } from 'lucide-react';
+import { Download, Image, Plus, Trash2, Type, X, FileText, Printer, FileDown, FileCode, Undo2, Redo2, FileJson, Upload, ImagePlus } from 'lucide-react';
 import { toast } from 'sonner';
 import { FontSelector } from './FontSelector';
 import { ColorPicker } from './ColorPicker';
 import { ImageAdjustModal } from './ImageAdjustModal';
 import { TextBoxEditor } from './TextBoxEditor';
+import { ImageBoxEditor } from './ImageBoxEditor';
+import { ImageBoxPanel } from './ImageBoxPanel';
 import { CoffeeNameToolbar } from './CoffeeNameToolbar';
 import { FreeTextToolbar } from './FreeTextToolbar';
+import { LabelStockSelector } from './LabelStockSelector';
+import { ProductFooterEditor } from './ProductFooterEditor';
+import { ProductFooterPanel } from './ProductFooterPanel';
+import { RoastInfoPanel } from './RoastInfoPanel';
+import { SavedDesignsPanel } from './SavedDesignsPanel';
+import { ShopifyHandoffButton } from './ShopifyHandoffButton';
+import { BackgroundImageEditor } from './BackgroundImageEditor';
+import { RotateHandle } from './RotateHandle';
+import { TextTransformControls } from './TextTransformControls';
+import { TextStyleControls } from './TextStyleControls';
+import { TextEffectsControls } from './TextEffectsControls';
+import { LayersPanel } from './LayersPanel';
+import { AlignmentPanel } from './AlignmentPanel';
+import { CanvasRulers } from './CanvasRulers';
+import { CanvasGuidesControls } from './CanvasGuidesControls';
+import { CanvasZoomControls } from './CanvasZoomControls';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { LabelData, ProductInfo, TextBox, ImageElement } from '@/types/label';
+import { useViewportSize } from '@/hooks/use-viewport-size';
+import { useLoadedImage, useLoadedImages } from '@/hooks/use-loaded-image';
+import { HistoryControls } from '@/hooks/use-history';
+import { LabelData, ProductInfo, TextBox, TextEffects, TextStyle, TextWarp, ImageBox, ImageElement, ProductInfoFooter, RoastInfo } from '@/types/label';
+import {
+  PRINT_DPI_OPTIONS,
+  DEFAULT_PRINT_DPI,
+  createPrintCanvas,
+  canvasToBlob,
+  downloadBlob,
+  loadImage
+} from '@/lib/labelExport';
+import { DEFAULT_PDF_OPTIONS, PDF_BLEED_OPTIONS, exportLabelPdf } from '@/lib/pdfExport';
+import { exportLabelSvg } from '@/lib/svgExport';
+import {
+  Bounds,
+  COFFEE_NAME_DEFAULT_FONT_SIZE,
+  COFFEE_NAME_MAX_FONT_SIZE,
+  COFFEE_NAME_MIN_FONT_SIZE,
+  createCanvasMeasurer,
+  getCoffeeNameEffects,
+  getCoffeeNamePosition,
+  getCoffeeNameStyle,
+  getCoffeeNameText,
+  measureCoffeeName
+} from '@/lib/labelLayout';
+import { renderLabel, loadRenderImages, getElementImageUrls } from '@/lib/labelRenderer';
+import {
+  COFFEE_NAME_LAYER_ID,
+  FOOTER_LAYER_ID,
+  createImageBox,
+  duplicateElements,
+  expandToGroups,
+  groupElements,
+  isCopyable,
+  isRemovable,
+  moveElement,
+  pasteElements,
+  removeElement,
+  removeElements,
+  ungroupElements,
+  updateElement
+} from '@/lib/labelElements';
+import {
+  AlignTarget,
+  BoundsContext,
+  alignElements,
+  countUnits,
+  distributeElements,
+  getElementBounds,
+  getElementsInRect,
+  getRotatedBounds,
+  getUnionBounds,
+  translateElements
+} from '@/lib/labelAlignment';
+import {
+  CanvasGuideSettings,
+  RULER_SIZE,
+  SnapGuide,
+  SnapMove,
+  SNAP_THRESHOLD,
+  SnapTargets,
+  getGridLines,
+  getSnapTargets,
+  loadGuideSettings,
+  saveGuideSettings,
+  snapBounds
+} from '@/lib/labelSnapping';
+import {
+  DEFAULT_FOOTER_TEMPLATE,
+  createDefaultFooter,
+  loadBrandFooter,
+  saveBrandFooter,
+  toFooterTemplate
+} from '@/lib/productFooter';
+import { DEFAULT_ROAST_INFO, resolveRoastValues } from '@/lib/roastInfo';
+import { SavedLabel } from '@/lib/labelStorage';
+import { copyElements, readClipboard } from '@/lib/labelClipboard';
+import { normalizeRotation, panBackground } from '@/lib/imageTransform';
+import { PinchChange, joinPinch, trackPointerDrag } from '@/lib/pointerGestures';
+import {
+  CanvasZoom,
+  FIT_VIEWPORT_HEIGHT,
+  clientToLabel,
+  getCanvasPixelRatio,
+  getFitScale,
+  getZoomScroll,
+  stepZoom
+} from '@/lib/canvasViewport';
+import { labelFromJson, labelToJson } from '@/lib/labelSchema';
+import { changeLabelStock, getLabelStock, getStockDesignSize, inchesToDesignUnits } from '@/lib/labelStock';
+import { ShopifyReturnTarget } from '@/lib/shopifyHandoff';
 
 interface LabelDesignerProps {
   labelData: LabelData;
   onLabelChange: (data: LabelData) => void;
   productName?: string;
   productInfo?: ProductInfo | null;
+  history?: HistoryControls;
+  designId?: string | null;
+  onDesignSaved?: (design: SavedLabel, savedFrom: LabelData) => void;
+  onOpenDesign?: (design: SavedLabel) => void;
+  // Set when opened from a Shopify product page that wants the design back
+  storeReturn?: ShopifyReturnTarget | null;
+  // Inside the store's iframe, where the page around it provides the title
+  embedded?: boolean;
 }
 
-const CANVAS_WIDTH = 400;
-const CANVAS_HEIGHT = 600;
+// Overlay hit areas follow the element stack, above the background (zIndex 1)
+const ELEMENT_Z_INDEX = 20;
+// Longest side of the crop frame when re-cropping an image element
+const CROP_FRAME_SIZE = 400;
+// The background isn't part of the element stack but is selected the same way
+const BACKGROUND_SELECTION_ID = 'background';
+// Width of the frame drawn around the label, on each side
+const CANVAS_BORDER = 2;
 
 export const LabelDesigner: React.FC<LabelDesignerProps> = ({ 
   labelData, 
   onLabelChange,
   productName,
-  productInfo 
+  productInfo,
+  history,
+  designId = null,
+  onDesignSaved,
+  onOpenDesign,
+  storeReturn = null,
+  embedded = false
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const designInputRef = useRef<HTMLInputElement>(null);
+  const imageBoxInputRef = useRef<HTMLInputElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
   
-  const [previewMode, setPreviewMode] = useState(false);
-  const [selectedTextBoxIndex, setSelectedTextBoxIndex] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [alignTarget, setAlignTarget] = useState<AlignTarget>('selection');
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  // Set when a marquee drag ends so the click that follows doesn't reselect
+  const marqueeDraggedRef = useRef(false);
+  const [croppingImageId, setCroppingImageId] = useState<string | null>(null);
+  const [isAdjustingBackground, setIsAdjustingBackground] = useState(false);
   const [showStylingPanel, setShowStylingPanel] = useState(false);
   const [tempImageUrl, setTempImageUrl] = useState<string | null>(null);
   const [isDraggingCoffeeName, setIsDraggingCoffeeName] = useState(false);
+  const [printDpi, setPrintDpi] = useState(DEFAULT_PRINT_DPI);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState(DEFAULT_PDF_OPTIONS);
+  const [fontLoadCount, setFontLoadCount] = useState(0);
+  const [guideSettings, setGuideSettings] = useState(loadGuideSettings);
+  // Lines the element being dragged is snapped to
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  const [zoom, setZoom] = useState<CanvasZoom>('fit');
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  // Scroll position to restore after a zoom renders, keeping the pointer's spot
+  const pendingScrollRef = useRef<{ left: number; top: number } | null>(null);
   
   // Mobile-specific state for coffee name selection
   const isMobile = useIsMobile();
-  const [isCoffeeNameSelected, setIsCoffeeNameSelected] = useState(false);
   const [isHoveringCoffeeName, setIsHoveringCoffeeName] = useState(false);
   const [toolbarHoverTimeout, setToolbarHoverTimeout] = useState<NodeJS.Timeout | null>(null);
 
-  // Initialize coffee name position from labelData or use default
-  const coffeeNamePosition = labelData.coffeeNamePosition || { x: CANVAS_WIDTH / 2, y: 80 };
-
-  // Canvas drawing function
-  const drawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const backgroundImage = useLoadedImage(labelData.backgroundImage?.url);
+  const elementImages = useLoadedImages(getElementImageUrls(labelData));
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Set white background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw background image first (bottom layer)
-    if (labelData.backgroundImage) {
-      const img = new window.Image();
-      img.crossOrigin = 'anonymous';
-      img.onload = () => {
-        const bgImg = labelData.backgroundImage!;
-        
-        // Use the crop parameters from ImageAdjustModal
-        ctx.drawImage(
-          img,
-          bgImg.x, bgImg.y, bgImg.width, bgImg.height, // Source crop rectangle
-          0, 0, CANVAS_WIDTH, CANVAS_HEIGHT // Draw to fill entire canvas
-        );
-        
-        // Draw text elements on top of image
-        drawTextElements(ctx);
-        if (previewMode) drawWatermark(ctx);
-      };
-      img.src = labelData.backgroundImage.url;
-    } else {
-      // No background image, just draw text
-      drawTextElements(ctx);
-      if (previewMode) drawWatermark(ctx);
-    }
-  }, [labelData, previewMode]);
+  // Canvas size and shape come from the selected label stock
+  const stock = getLabelStock(labelData.stockId);
+  const designSize = useMemo(() => getStockDesignSize(stock), [stock]);
+  const cornerRadius = inchesToDesignUnits(stock.cornerRadiusInches);
+  const safeMargin = inchesToDesignUnits(stock.safeMarginInches);
 
-  // Helper function to calculate optimal font size for coffee name
-  const calculateOptimalFontSize = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, requestedFontSize: number, minFontSize: number, fontFamily: string): number => {
-    let fontSize = requestedFontSize;
-    
-    while (fontSize >= minFontSize) {
-      ctx.font = `bold ${fontSize}px ${fontFamily}`;
-      const textWidth = ctx.measureText(text).width;
-      
-      if (textWidth <= maxWidth) {
-        return fontSize;
-      }
-      
-      fontSize -= 2; // Reduce by 2px increments
-    }
-    
-    return minFontSize;
+  // The label is scaled as a whole to fit the window or to the chosen zoom.
+  // Positions stay in design units; only pointer input is converted.
+  const viewport = useViewportSize(viewportRef);
+  const rulerOffset = guideSettings.showRulers ? RULER_SIZE : 0;
+  const contentSize = {
+    width: designSize.width + CANVAS_BORDER * 2 + rulerOffset,
+    height: designSize.height + CANVAS_BORDER * 2 + rulerOffset
   };
+  const fitScale = viewport.width
+    ? getFitScale(contentSize, { width: viewport.width, height: viewport.height * FIT_VIEWPORT_HEIGHT })
+    : 1;
+  const scale = zoom === 'fit' ? fitScale : zoom;
+  const pixelRatio = getCanvasPixelRatio(scale);
 
-  const drawTextElements = (ctx: CanvasRenderingContext2D) => {
-    const displayProductInfo = productInfo || {
-      weight: '12 oz',
-      grind: 'whole-bean' as const,
-      type: 'regular' as const
-    };
-
-    // Draw dynamically scaled coffee name at current position
-    ctx.save();
-    ctx.fillStyle = labelData.coffeeNameColor || '#ffffff';
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.textAlign = 'center';
-    
-    const coffeeName = productInfo?.name || labelData.coffeeName || 'Coffee Name';
-    const fontFamily = labelData.coffeeNameFont || 'serif';
-    const maxWidth = CANVAS_WIDTH - 40; // Leave 20px margin on each side
-    const requestedFontSize = labelData.coffeeNameFontSize || 32;
-    const minFontSize = 16;
-    
-    // Calculate optimal font size based on user's requested size
-    const optimalFontSize = calculateOptimalFontSize(ctx, coffeeName, maxWidth, requestedFontSize, minFontSize, fontFamily);
-    ctx.font = `bold ${optimalFontSize}px ${fontFamily}`;
-    
-    // Check if text still doesn't fit at minimum size - wrap if needed
-    const textWidth = ctx.measureText(coffeeName).width;
-    if (textWidth > maxWidth && optimalFontSize === minFontSize) {
-      // Split text into words and wrap
-      const words = coffeeName.split(' ');
-      const lines: string[] = [];
-      let currentLine = '';
-      
-      for (const word of words) {
-        const testLine = currentLine ? `${currentLine} ${word}` : word;
-        const testWidth = ctx.measureText(testLine).width;
-        
-        if (testWidth <= maxWidth) {
-          currentLine = testLine;
-        } else {
-          if (currentLine) lines.push(currentLine);
-          currentLine = word;
-        }
-      }
-      if (currentLine) lines.push(currentLine);
-      
-      // Draw wrapped text at current position
-      const lineHeight = optimalFontSize * 1.2;
-      const startY = coffeeNamePosition.y - ((lines.length - 1) * lineHeight) / 2;
-      
-      lines.forEach((line, index) => {
-        const y = startY + index * lineHeight;
-        ctx.strokeText(line, coffeeNamePosition.x, y);
-        ctx.fillText(line, coffeeNamePosition.x, y);
-      });
-    } else {
-      // Draw single line at current position
-      ctx.strokeText(coffeeName, coffeeNamePosition.x, coffeeNamePosition.y);
-      ctx.fillText(coffeeName, coffeeNamePosition.x, coffeeNamePosition.y);
-    }
-    
-    ctx.restore();
-
-    // Draw text boxes in proper layer order with proper text wrapping
-    // Free text first (behind regular text boxes)
-    labelData.textBoxes
-      .filter(textBox => textBox.type === 'freeText')
-      .forEach(textBox => {
-        ctx.save();
-        ctx.fillStyle = textBox.color;
-        ctx.font = `${textBox.fontSize}px ${textBox.fontFamily}`;
-        
-        const lines = textBox.content.split('\n');
-        const maxWidth = textBox.width - 10; // Leave some padding
-        const wrappedLines: string[] = [];
-        
-        // Wrap text to fit within textBox width
-        lines.forEach(line => {
-          if (ctx.measureText(line).width <= maxWidth) {
-            wrappedLines.push(line);
-          } else {
-            // Split line into words and wrap
-            const words = line.split(' ');
-            let currentLine = '';
-            
-            for (const word of words) {
-              const testLine = currentLine ? `${currentLine} ${word}` : word;
-              const testWidth = ctx.measureText(testLine).width;
-              
-              if (testWidth <= maxWidth) {
-                currentLine = testLine;
-              } else {
-                if (currentLine) wrappedLines.push(currentLine);
-                currentLine = word;
-              }
-            }
-            if (currentLine) wrappedLines.push(currentLine);
-          }
-        });
-        
-        // Draw wrapped lines
-        wrappedLines.forEach((line, index) => {
-          ctx.fillText(
-            line, 
-            textBox.x + 5, // Small left padding
-            textBox.y + (index + 1) * textBox.fontSize * 1.2
-          );
-        });
-        ctx.restore();
-      });
+  const footer = labelData.footer || createDefaultFooter(designSize);
+  const roast = labelData.roast || DEFAULT_ROAST_INFO;
+  const coffeeNameText = getCoffeeNameText(labelData, productInfo);
 
-    // Regular text boxes second
-    labelData.textBoxes
-      .filter(textBox => textBox.type !== 'freeText')
-      .forEach(textBox => {
-        ctx.save();
-        ctx.fillStyle = textBox.color;
-        ctx.font = `${textBox.fontSize}px ${textBox.fontFamily}`;
-        
-        const lines = textBox.content.split('\n');
-        lines.forEach((line, index) => {
-          ctx.fillText(
-            line, 
-            textBox.x, 
-            textBox.y + (index + 1) * textBox.fontSize * 1.2
-          );
-        });
-        ctx.restore();
-      });
+  // Initialize coffee name position from labelData or use default
+  const coffeeNamePosition = getCoffeeNamePosition(labelData, designSize);
 
-    // Product info footer
-    ctx.fillStyle = '#000000';
-    ctx.textAlign = 'center';
-    
-    // Calculate text positions - moved closer together
-    const productInfoY = CANVAS_HEIGHT - 80;
-    const today = new Date();
-    const roastDate = today.toLocaleDateString();
-    
-    // Draw rounded rectangle background with 70% white transparency
-    const padding = 10;
-    const backgroundHeight = 110; // Increased height to fit all text properly
-    const backgroundY = CANVAS_HEIGHT - backgroundHeight - 10;
-    const backgroundWidth = 320;
-    const backgroundX = (CANVAS_WIDTH - backgroundWidth) / 2;
-    const cornerRadius = 8;
-    
-    ctx.save();
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-    ctx.beginPath();
-    ctx.roundRect(backgroundX, backgroundY, backgroundWidth, backgroundHeight, cornerRadius);
-    ctx.fill();
-    ctx.restore();
-    
-    // Product details - 11pt font, top justified to box
-    const productFontSize = 15; // 11pt at 96dpi = 15px
-    const productFont = 'FertigoPro, serif';
-    ctx.font = `${productFontSize}px ${productFont}`;
-    ctx.fillStyle = '#000000';
-    
-    // Position product data at top of rectangle
-    const productTopY = backgroundY + padding + productFontSize;
-    
-    // Split product info across the width of the rectangle
-    const leftX = backgroundX + padding + 40;
-    const centerX = CANVAS_WIDTH / 2;
-    const rightX = backgroundX + backgroundWidth - padding - 40;
-    
-    ctx.textAlign = 'left';
-    ctx.fillText(`${displayProductInfo.weight}`, leftX, productTopY);
-    ctx.textAlign = 'center';
-    ctx.fillText(`${displayProductInfo.grind === 'whole-bean' ? 'Whole Bean' : 'Ground'}`, centerX, productTopY);
-    ctx.textAlign = 'right';
-    ctx.fillText(`${displayProductInfo.type === 'regular' ? 'Regular' : 'Decaffeinated'}`, rightX, productTopY);
-    
-    ctx.textAlign = 'center';
-    ctx.fillText(`Roast Date: ${roastDate}`, CANVAS_WIDTH / 2, productTopY + 20);
+  // Toolbars and style panels edit a single selected element at a time
+  const selectedElementId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const setSelectedElementId = (id: string | null) => setSelectedIds(id ? [id] : []);
+  // Stack elements in the selection, leaving out the background
+  const arrangeIds = selectedIds.filter(id => labelData.elements.some(element => element.id === id));
 
-    // Company info - 8pt font, bottom justified to box
-    const footerFontSize = 11; // 8pt at 96dpi = 11px
-    const footerFont = 'FertigoPro, serif';
-    ctx.font = `${footerFontSize}px ${footerFont}`;
-    
-    // Position footer data at bottom of rectangle with proper spacing
-    const footerBottomY = backgroundY + backgroundHeight - padding;
-    
-    ctx.fillText('JavaMania Coffee Roastery | Libertyville IL', CANVAS_WIDTH / 2, footerBottomY - 24);
-    ctx.fillText('www.javamania.com', CANVAS_WIDTH / 2, footerBottomY - 12);
-    ctx.fillText('100% Arabica Coffee & Natural Flavors', CANVAS_WIDTH / 2, footerBottomY);
+  // Selecting an element selects its whole group. Shift adds it to the
+  // selection or takes it out; pressing on part of the selection keeps it so
+  // the whole selection can be dragged.
+  const selectElement = (id: string, additive: boolean) => {
+    const ids = expandToGroups(labelData.elements, [id]);
+    setSelectedIds(current => {
+      const withoutBackground = current.filter(selected => selected !== BACKGROUND_SELECTION_ID);
+      if (additive) {
+        return withoutBackground.includes(id)
+          ? withoutBackground.filter(selected => !ids.includes(selected))
+          : [...withoutBackground, ...ids];
+      }
+      return current.includes(id) ? current : ids;
+    });
   };
 
-  const drawWatermark = (ctx: CanvasRenderingContext2D) => {
-    ctx.save();
-    ctx.globalAlpha = 0.3;
-    ctx.font = 'bold 48px serif';
-    ctx.fillStyle = '#ffffff';
-    ctx.textAlign = 'center';
-    ctx.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-    ctx.rotate(-Math.PI / 6);
-    ctx.fillText('PREVIEW ONLY', 0, 0);
-    ctx.restore();
-  };
+  // The coffee name and footer are selected through the same stack as everything else
+  const isCoffeeNameSelected = selectedElementId === COFFEE_NAME_LAYER_ID;
+  const isFooterSelected = selectedElementId === FOOTER_LAYER_ID;
+  const selectedElementIndex = labelData.elements.findIndex(element => element.id === selectedElementId);
+  const selectedElement = labelData.elements[selectedElementIndex];
+  const selectedTextBox = selectedElement?.kind === 'text' ? selectedElement : null;
+  const selectedImageBox = selectedElement?.kind === 'image' ? selectedElement : null;
+  const croppingImage = labelData.elements.find(
+    (element): element is ImageBox => element.kind === 'image' && element.id === croppingImageId
+  );
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -327,6 +273,13 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
     toast.success('Image added to label');
   };
 
+  const updateBackgroundImage = (updatedImage: ImageElement) => {
+    onLabelChange({
+      ...labelData,
+      backgroundImage: updatedImage
+    });
+  };
+
   const handleImageCancel = () => {
     setTempImageUrl(null);
   };
@@ -334,6 +287,7 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
   // Event handlers
   const addTextBox = () => {
     const newTextBox: TextBox = {
+      kind: 'text',
       id: Date.now().toString(),
       content: 'New Text',
       x: 50,
@@ -348,13 +302,14 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
 
     onLabelChange({
       ...labelData,
-      textBoxes: [...labelData.textBoxes, newTextBox]
+      elements: [...labelData.elements, newTextBox]
     });
-    setSelectedTextBoxIndex(labelData.textBoxes.length);
+    setSelectedElementId(newTextBox.id);
   };
 
   const addFreeText = () => {
     const newFreeText: TextBox = {
+      kind: 'text',
       id: Date.now().toString(),
       content: 'Free Text',
       x: 50,
@@ -369,30 +324,115 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
 
     onLabelChange({
       ...labelData,
-      textBoxes: [...labelData.textBoxes, newFreeText]
+      elements: [...labelData.elements, newFreeText]
     });
-    setSelectedTextBoxIndex(labelData.textBoxes.length);
+    setSelectedElementId(newFreeText.id);
   };
 
-  const deleteSelectedTextBox = () => {
-    if (selectedTextBoxIndex !== null) {
-      onLabelChange({
-        ...labelData,
-        textBoxes: labelData.textBoxes.filter((_, index) => index !== selectedTextBoxIndex)
-      });
-      setSelectedTextBoxIndex(null);
+  // New image elements go on top of the stack at logo size
+  const handleImageBoxUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const url = e.target?.result as string;
+        const image = await loadImage(url);
+        const imageBox = createImageBox(url, image.naturalWidth, image.naturalHeight, designSize);
+        onLabelChange({
+          ...labelData,
+          elements: [...labelData.elements, imageBox]
+        });
+        setSelectedElementId(imageBox.id);
+      } catch (error) {
+        console.error('Failed to add image:', error);
+        toast.error('Failed to add image');
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const deleteSelectedElement = () => {
+    if (selectedElementId !== null) {
+      onLabelChange(removeElement(labelData, selectedElementId));
+      setSelectedElementId(null);
     }
   };
 
+  // Dragging one element of a multi-selection drags the rest along
+  const moveSelectionWith = (next: LabelData, movedId: string, dx: number, dy: number) =>
+    selectedIds.length > 1 && selectedIds.includes(movedId)
+      ? translateElements(next, selectedIds.filter(id => id !== movedId), dx, dy, designSize)
+      : next;
+
+  // A change that keeps the size is a move; resizes only touch their element
+  const getMoveDelta = (before: Bounds | undefined, after: Bounds) =>
+    before && before.width === after.width && before.height === after.height
+      ? { dx: after.x - before.x, dy: after.y - before.y }
+      : { dx: 0, dy: 0 };
+
+  const updateBoxElement = (updated: TextBox | ImageBox) => {
+    const before = labelData.elements.find(element => element.id === updated.id) as TextBox | ImageBox | undefined;
+    const { dx, dy } = getMoveDelta(before, updated);
+    onLabelChange(moveSelectionWith(updateElement(labelData, updated), updated.id, dx, dy));
+  };
+
   const updateTextBox = (updatedTextBox: TextBox) => {
+    updateBoxElement(updatedTextBox);
+  };
+
+  const updateImageBox = (updatedImageBox: ImageBox) => {
+    updateBoxElement(updatedImageBox);
+  };
+
+  const updateLabelStock = (stockId: string) => {
+    if (stockId === stock.id) return;
+    onLabelChange(changeLabelStock(labelData, stockId));
+    setSelectedElementId(null);
+  };
+
+  const updateFooter = (updatedFooter: ProductInfoFooter) => {
+    const { dx, dy } = getMoveDelta(footer, updatedFooter);
+    onLabelChange(moveSelectionWith({
+      ...labelData,
+      footer: updatedFooter
+    }, FOOTER_LAYER_ID, dx, dy));
+  };
+
+  const updateRoast = (updatedRoast: RoastInfo, updatedFooter: ProductInfoFooter) => {
     onLabelChange({
       ...labelData,
-      textBoxes: labelData.textBoxes.map(tb => 
-        tb.id === updatedTextBox.id ? updatedTextBox : tb
-      )
+      roast: updatedRoast,
+      footer: updatedFooter
     });
   };
 
+  const saveFooterAsBrandDefault = () => {
+    try {
+      saveBrandFooter(toFooterTemplate(footer, designSize));
+      toast.success('Footer saved as brand default');
+    } catch (error) {
+      console.error('Failed to save brand footer:', error);
+      toast.error('Failed to save footer as brand default');
+    }
+  };
+
+  // Restyles the footer from the brand default, keeping its current bounds
+  const applyBrandFooter = () => {
+    const template = loadBrandFooter();
+    const { x, y, width, height } = footer;
+    updateFooter({
+      ...createDefaultFooter(designSize, template || DEFAULT_FOOTER_TEMPLATE),
+      x,
+      y,
+      width,
+      height
+    });
+    toast.success(template ? 'Brand footer applied' : 'No brand footer saved - restored the standard footer');
+  };
+
   const updateCoffeeNameFont = (font: string) => {
     onLabelChange({
       ...labelData,
@@ -414,377 +454,903 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
     });
   };
 
+  const updateCoffeeNameRotation = (rotation: number) => {
+    onLabelChange({
+      ...labelData,
+      coffeeNameRotation: rotation
+    });
+  };
+
+  const updateCoffeeNameWarp = (warp: TextWarp | undefined) => {
+    onLabelChange({
+      ...labelData,
+      coffeeNameWarp: warp
+    });
+  };
+
+  const updateCoffeeNameStyle = (style: TextStyle) => {
+    onLabelChange({
+      ...labelData,
+      coffeeNameStyle: style
+    });
+  };
+
+  const updateCoffeeNameEffects = (effects: TextEffects) => {
+    onLabelChange({
+      ...labelData,
+      coffeeNameEffects: effects
+    });
+  };
+
   const updateSelectedTextBoxFont = (font: string) => {
-    if (selectedTextBoxIndex !== null) {
-      const textBox = labelData.textBoxes[selectedTextBoxIndex];
-      if (textBox) {
-        updateTextBox({ ...textBox, fontFamily: font });
-      }
+    if (selectedTextBox) {
+      updateTextBox({ ...selectedTextBox, fontFamily: font });
     }
   };
 
   const updateSelectedTextBoxColor = (color: string) => {
-    if (selectedTextBoxIndex !== null) {
-      const textBox = labelData.textBoxes[selectedTextBoxIndex];
-      if (textBox) {
-        updateTextBox({ ...textBox, color });
-      }
+    if (selectedTextBox) {
+      updateTextBox({ ...selectedTextBox, color });
     }
   };
 
   const updateSelectedTextBoxFontSize = (size: number) => {
-    if (selectedTextBoxIndex !== null) {
-      const textBox = labelData.textBoxes[selectedTextBoxIndex];
-      if (textBox) {
-        updateTextBox({ ...textBox, fontSize: size });
-      }
+    if (selectedTextBox) {
+      updateTextBox({ ...selectedTextBox, fontSize: size });
     }
   };
 
-  const downloadPreview = () => {
-    setPreviewMode(true);
-    setTimeout(() => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
-        const link = document.createElement('a');
-        link.download = `${coffeeName}-label-preview.png`;
-        link.href = canvas.toDataURL();
-        link.click();
-      }
-      setPreviewMode(false);
-    }, 100);
+  // Customer preview: same renderer, on-screen resolution, watermarked
+  const downloadPreview = async () => {
+    try {
+      await document.fonts.ready;
+      const canvas = document.createElement('canvas');
+      canvas.width = designSize.width;
+      canvas.height = designSize.height;
+      const images = await loadRenderImages(labelData);
+      renderLabel(labelData, productInfo, { size: designSize, images, watermark: true, cornerRadius }, canvas.getContext('2d')!);
+
+      const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
+      downloadBlob(await canvasToBlob(canvas), `${coffeeName}-label-preview.png`);
+    } catch (error) {
+      console.error('Preview export failed:', error);
+      toast.error('Failed to download preview');
+    }
   };
 
-  // Helper function to get text bounds for coffee name
-  const getCoffeeNameBounds = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return null;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    
-    const coffeeName = productInfo?.name || labelData.coffeeName || 'Coffee Name';
-    const fontFamily = labelData.coffeeNameFont || 'serif';
-    const maxWidth = CANVAS_WIDTH - 40;
-    const requestedFontSize = labelData.coffeeNameFontSize || 32;
-    const minFontSize = 16;
-    
-    const optimalFontSize = calculateOptimalFontSize(ctx, coffeeName, maxWidth, requestedFontSize, minFontSize, fontFamily);
-    ctx.font = `bold ${optimalFontSize}px ${fontFamily}`;
-    
-    const textWidth = ctx.measureText(coffeeName).width;
-    const textHeight = optimalFontSize;
-    
-    return {
-      width: Math.min(textWidth, maxWidth),
-      height: textHeight
+  // Re-renders the label offscreen at the selected physical size and DPI so the
+  // printed file isn't limited to the on-screen canvas resolution.
+  const downloadPrintFile = async () => {
+    setIsExporting(true);
+    try {
+      await document.fonts.ready;
+      const images = await loadRenderImages(labelData);
+
+      const { canvas, ctx } = createPrintCanvas(stock, printDpi, designSize.width, designSize.height);
+      renderLabel(labelData, productInfo, { size: designSize, images, cornerRadius }, ctx);
+
+      const blob = await canvasToBlob(canvas);
+      const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
+      downloadBlob(blob, `${coffeeName}-label-${stock.id}-${printDpi}dpi.png`);
+      toast.success(`Print file exported at ${printDpi} DPI`);
+    } catch (error) {
+      console.error('Print export failed:', error);
+      toast.error('Failed to export print file');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const downloadPdf = async () => {
+    setIsExporting(true);
+    try {
+      await document.fonts.ready;
+      const pdfBytes = await exportLabelPdf(labelData, productInfo, { ...pdfOptions, stock });
+
+      const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
+      downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), `${coffeeName}-label-${stock.id}.pdf`);
+      toast.success('Print-ready PDF exported');
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast.error('Failed to export PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const downloadSvg = async () => {
+    try {
+      await document.fonts.ready;
+      const svg = exportLabelSvg(labelData, productInfo, { stock });
+
+      const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${coffeeName}-label.svg`);
+      toast.success('SVG exported');
+    } catch (error) {
+      console.error('SVG export failed:', error);
+      toast.error('Failed to export SVG');
+    }
+  };
+
+  // Versioned .json of the design itself, for sharing or keeping in git
+  const exportDesign = () => {
+    const coffeeName = productInfo?.name || labelData.coffeeName || 'custom-blend';
+    downloadBlob(new Blob([labelToJson(labelData)], { type: 'application/json' }), `${coffeeName}-label.json`);
+  };
+
+  const handleDesignImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLabelChange(labelFromJson(await file.text()));
+      setSelectedElementId(null);
+      toast.success('Design imported');
+    } catch (error) {
+      console.error('Design import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import design');
+    }
+  };
+
+  // Unrotated text bounds of the coffee name, for its hit area
+  const measureText = createCanvasMeasurer(canvasRef.current?.getContext('2d') || undefined);
+  const coffeeNameBounds = measureCoffeeName(
+    labelData, productInfo, designSize, measureText
+  );
+
+  const boundsContext: BoundsContext = { productInfo, size: designSize, measure: measureText };
+  const selectionBounds = arrangeIds.length > 1
+    ? getUnionBounds(labelData.elements
+      .filter(element => arrangeIds.includes(element.id) && !element.hidden)
+      .map(element => getElementBounds(labelData, element, boundsContext)))
+    : null;
+
+  // Snapping for a drag of the given element, or of the background when
+  // there's no id. Everything moving with it is left out of the targets.
+  // Made once per drag, at pointer down, so the targets are worked out once
+  const createSnap = (movedId?: string): SnapMove | undefined => {
+    if (!guideSettings.snap) return undefined;
+    const movingIds = movedId && selectedIds.includes(movedId) ? selectedIds : movedId ? [movedId] : [];
+    // Worked out on the first move, not when the drag merely starts
+    let targets: SnapTargets | null = null;
+    return (bounds) => {
+      targets = targets || getSnapTargets(
+        labelData,
+        movingIds,
+        boundsContext,
+        safeMargin,
+        guideSettings.showGrid ? guideSettings.gridSize : undefined
+      );
+      // The same distance on screen at any zoom
+      const result = snapBounds(bounds, targets, SNAP_THRESHOLD / scale);
+      setSnapGuides(result.guides);
+      return result;
     };
   };
 
-  // Handle coffee name interaction (click/tap or drag)
-  const handleCoffeeNameMouseDown = (e: React.MouseEvent) => {
+  // Ends an undo batch, and with it any snap guides from the drag
+  const endChange = () => {
+    history?.endBatch();
+    setSnapGuides([]);
+  };
+
+  const updateGuideSettings = (settings: CanvasGuideSettings) => {
+    setGuideSettings(settings);
+    saveGuideSettings(settings);
+  };
+
+  const groupSelection = () => {
+    onLabelChange(groupElements(labelData, arrangeIds));
+  };
+
+  const ungroupSelection = () => {
+    onLabelChange(ungroupElements(labelData, arrangeIds));
+  };
+
+  // Drag on an empty part of the label to select everything the box touches;
+  // Shift adds to the current selection. A finger on an empty spot scrolls the
+  // page instead.
+  const handleOverlayPointerDown = (e: React.PointerEvent) => {
+    const target = e.target as HTMLElement;
+    if (target !== e.currentTarget && target.dataset.marqueeSurface === undefined) return;
+    if (e.button !== 0 || e.pointerType === 'touch') return;
+
+    const rect = overlayRef.current!.getBoundingClientRect();
+    const { x: startX, y: startY } = clientToLabel(e.clientX, e.clientY, rect, scale);
+    const additive = e.shiftKey;
+    const startSelection = selectedIds.filter(id => id !== BACKGROUND_SELECTION_ID);
+    marqueeDraggedRef.current = false;
+
+    const getRect = (moveEvent: PointerEvent): Bounds => {
+      const { x, y } = clientToLabel(moveEvent.clientX, moveEvent.clientY, rect, scale);
+      return { x: Math.min(startX, x), y: Math.min(startY, y), width: Math.abs(x - startX), height: Math.abs(y - startY) };
+    };
+
+    trackPointerDrag(e, {
+      onMove: (moveEvent) => {
+        const marqueeRect = getRect(moveEvent);
+        // A few pixels of jitter is still a click
+        const jitter = 3 / scale;
+        if (!marqueeDraggedRef.current && marqueeRect.width < jitter && marqueeRect.height < jitter) return;
+        marqueeDraggedRef.current = true;
+        setMarquee(marqueeRect);
+      },
+      onEnd: (upEvent) => {
+        if (marqueeDraggedRef.current) {
+          const picked = getElementsInRect(labelData, getRect(upEvent), boundsContext);
+          setSelectedIds(additive ? [...new Set([...startSelection, ...picked])] : picked);
+        }
+        setMarquee(null);
+      }
+    });
+  };
+
+  // Handle coffee name interaction: click/tap selects, drag moves, and two
+  // fingers resize and turn it
+  const handleCoffeeNamePointerDown = (e: React.PointerEvent) => {
+    if (joinPinch(e)) return;
     e.preventDefault();
     e.stopPropagation();
     
-    // On mobile, handle tap to select
-    if (isMobile) {
-      setIsCoffeeNameSelected(!isCoffeeNameSelected);
-      return;
-    }
-    
-    setIsDraggingCoffeeName(true);
+    selectElement(COFFEE_NAME_LAYER_ID, e.shiftKey);
     
     const rect = overlayRef.current?.getBoundingClientRect();
     if (!rect) return;
     
-    const startX = e.clientX - rect.left;
-    const startY = e.clientY - rect.top;
+    setIsDraggingCoffeeName(true);
+    history?.beginBatch();
+    
+    const { x: startX, y: startY } = clientToLabel(e.clientX, e.clientY, rect, scale);
     const startPosX = coffeeNamePosition.x;
     const startPosY = coffeeNamePosition.y;
     
-    const bounds = getCoffeeNameBounds();
-    if (!bounds) return;
+    const bounds = coffeeNameBounds;
+    const snap = createSnap(COFFEE_NAME_LAYER_ID);
     
-    const handleMouseMove = (moveEvent: MouseEvent) => {
-      const currentX = moveEvent.clientX - rect.left;
-      const currentY = moveEvent.clientY - rect.top;
+    const handleMove = (moveEvent: PointerEvent) => {
+      const current = clientToLabel(moveEvent.clientX, moveEvent.clientY, rect, scale);
       
-      const deltaX = currentX - startX;
-      const deltaY = currentY - startY;
+      const deltaX = current.x - startX;
+      const deltaY = current.y - startY;
       
       let newX = startPosX + deltaX;
       let newY = startPosY + deltaY;
+
+      if (snap && !moveEvent.altKey) {
+        const moved = { ...bounds, x: bounds.x + deltaX, y: bounds.y + deltaY };
+        const offset = snap(getRotatedBounds(moved, { x: newX, y: newY }, labelData.coffeeNameRotation || 0));
+        newX += offset.dx;
+        newY += offset.dy;
+      }
       
-      // Constrain to canvas bounds - keep text fully visible
-      const halfWidth = bounds.width / 2;
-      const textBottom = bounds.height;
+      // Constrain to canvas bounds - keep the (unrotated) text fully visible
+      const left = startPosX - bounds.x;
+      const right = bounds.x + bounds.width - startPosX;
+      const top = startPosY - bounds.y;
+      const bottom = Math.max(10, bounds.y + bounds.height - startPosY);
       
-      newX = Math.max(halfWidth, Math.min(CANVAS_WIDTH - halfWidth, newX));
-      newY = Math.max(textBottom, Math.min(CANVAS_HEIGHT - 10, newY));
+      newX = Math.max(left, Math.min(designSize.width - right, newX));
+      newY = Math.max(top, Math.min(designSize.height - bottom, newY));
       
       // Update position in labelData so it persists
-      onLabelChange({
+      onLabelChange(moveSelectionWith({
         ...labelData,
         coffeeNamePosition: { x: newX, y: newY }
-      });
+      }, COFFEE_NAME_LAYER_ID, newX - startPosX, newY - startPosY));
     };
     
-    const handleMouseUp = () => {
-      setIsDraggingCoffeeName(false);
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+    const startFontSize = labelData.coffeeNameFontSize || COFFEE_NAME_DEFAULT_FONT_SIZE;
+    const startRotation = labelData.coffeeNameRotation || 0;
+    const handlePinch = ({ scale: spread, rotation, dx, dy }: PinchChange) => {
+      onLabelChange({
+        ...labelData,
+        coffeeNamePosition: { x: startPosX + dx / scale, y: startPosY + dy / scale },
+        coffeeNameFontSize: Math.round(
+          Math.max(COFFEE_NAME_MIN_FONT_SIZE, Math.min(COFFEE_NAME_MAX_FONT_SIZE, startFontSize * spread))
+        ),
+        coffeeNameRotation: normalizeRotation(startRotation + rotation)
+      });
     };
     
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
+    trackPointerDrag(e, {
+      onMove: handleMove,
+      onPinch: handlePinch,
+      onEnd: () => {
+        setIsDraggingCoffeeName(false);
+        endChange();
+      }
+    });
   };
 
+  // Ctrl/Cmd+scroll zooms around the pointer. React's wheel listener is
+  // passive, so the page zoom can only be stopped from a native one.
   useEffect(() => {
-    drawCanvas();
-  }, [drawCanvas, labelData.coffeeNamePosition]);
+    const viewportElement = viewportRef.current;
+    if (!viewportElement) return;
 
-  const selectedTextBoxData = selectedTextBoxIndex !== null 
-    ? labelData.textBoxes[selectedTextBoxIndex] 
-    : null;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      const nextScale = stepZoom(scale, e.deltaY < 0 ? 1 : -1);
+      if (nextScale === scale) return;
+
+      const rect = viewportElement.getBoundingClientRect();
+      pendingScrollRef.current = getZoomScroll(
+        { left: viewportElement.scrollLeft, top: viewportElement.scrollTop },
+        { x: e.clientX - rect.left, y: e.clientY - rect.top },
+        scale,
+        nextScale
+      );
+      setZoom(nextScale);
+    };
+
+    viewportElement.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewportElement.removeEventListener('wheel', handleWheel);
+  }, [scale]);
+
+  // Scroll only once the zoomed label has its new size
+  useLayoutEffect(() => {
+    const viewportElement = viewportRef.current;
+    if (!viewportElement || !pendingScrollRef.current) return;
+    viewportElement.scrollLeft = pendingScrollRef.current.left;
+    viewportElement.scrollTop = pendingScrollRef.current.top;
+    pendingScrollRef.current = null;
+  }, [scale]);
+
+  // Holding Space turns a drag anywhere on the label into a pan
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== ' ' || target.isContentEditable) return;
+      if (['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName)) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Runs before the label's own handlers, so a pan never selects or moves anything
+  const handleViewportPointerDown = (e: React.PointerEvent) => {
+    if (!isSpaceHeld && e.button !== 1) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const viewportElement = viewportRef.current!;
+    const start = { x: e.clientX, y: e.clientY, left: viewportElement.scrollLeft, top: viewportElement.scrollTop };
+    trackPointerDrag(e, {
+      onMove: (moveEvent) => {
+        viewportElement.scrollLeft = start.left - (moveEvent.clientX - start.x);
+        viewportElement.scrollTop = start.top - (moveEvent.clientY - start.y);
+      }
+    });
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own native undo.
+  useEffect(() => {
+    if (!history) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  // Editing keys for the selection: arrows nudge (Shift for 10), Delete or
+  // Backspace removes, Ctrl/Cmd+D duplicates, Ctrl/Cmd+C and V copy and paste,
+  // Escape deselects and Tab steps through the elements
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (e.defaultPrevented) return;
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    // Keys that act on the canvas leave buttons, sliders and the like alone,
+    // so they only apply when nothing else has focus
+    const onCanvas = target === document.body || !!overlayRef.current?.contains(target);
+
+    const unlockedIds = arrangeIds.filter(id => !labelData.elements.find(element => element.id === id)?.locked);
+
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'd' && unlockedIds.length) {
+        e.preventDefault();
+        const duplicated = duplicateElements(labelData, unlockedIds);
+        if (!duplicated.ids.length) return;
+        onLabelChange(duplicated.labelData);
+        setSelectedIds(duplicated.ids);
+      } else if (key === 'c') {
+        const copyable = labelData.elements.filter(element => arrangeIds.includes(element.id)).filter(isCopyable);
+        // Nothing of ours to copy, so leave the browser's copy alone
+        if (!copyable.length) return;
+        e.preventDefault();
+        if (!copyElements(copyable)) {
+          toast.info('Copied for this tab only - too large to paste into other tabs');
+        }
+      } else if (key === 'v') {
+        const copied = readClipboard();
+        if (!copied.length) return;
+        e.preventDefault();
+        const pasted = pasteElements(labelData, copied);
+        onLabelChange(pasted.labelData);
+        setSelectedIds(pasted.ids);
+        // Pasting again lands one step further on
+        copyElements(pasted.labelData.elements.filter(element => pasted.ids.includes(element.id)).filter(isCopyable));
+      }
+      return;
+    }
+
+    const nudge = e.shiftKey ? 10 : 1;
+    const direction = {
+      ArrowLeft: { dx: -nudge, dy: 0 },
+      ArrowRight: { dx: nudge, dy: 0 },
+      ArrowUp: { dx: 0, dy: -nudge },
+      ArrowDown: { dx: 0, dy: nudge }
+    }[e.key];
+
+    if ((direction || e.key === 'Delete' || e.key === 'Backspace' || e.key === 'Tab') && !onCanvas) return;
+
+    if (direction) {
+      if (selectedElementId === BACKGROUND_SELECTION_ID && labelData.backgroundImage) {
+        e.preventDefault();
+        updateBackgroundImage(panBackground(labelData.backgroundImage, designSize, direction.dx, direction.dy));
+      } else if (unlockedIds.length) {
+        e.preventDefault();
+        onLabelChange(translateElements(labelData, unlockedIds, direction.dx, direction.dy, designSize));
+      }
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      const removable = labelData.elements.filter(element => unlockedIds.includes(element.id) && isRemovable(element));
+      if (!removable.length) return;
+      e.preventDefault();
+      onLabelChange(removeElements(labelData, removable.map(element => element.id)));
+      setSelectedIds(ids => ids.filter(id => !removable.some(element => element.id === id)));
+    } else if (e.key === 'Escape') {
+      setSelectedIds([]);
+    } else if (e.key === 'Tab') {
+      const selectable = labelData.elements.filter(element => !element.hidden && !element.locked);
+      if (!selectable.length) return;
+      e.preventDefault();
+      const index = selectable.findIndex(element => element.id === selectedElementId);
+      const step = e.shiftKey ? -1 : 1;
+      const next = index < 0
+        ? (e.shiftKey ? selectable.length - 1 : 0)
+        : (index + step + selectable.length) % selectable.length;
+      setSelectedElementId(selectable[next].id);
+    }
+  };
+
+  // The listener stays put while the handler sees the latest design
+  const shortcutHandlerRef = useRef(handleShortcut);
+  shortcutHandlerRef.current = handleShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Web fonts load lazily the first time they're used; redraw once they arrive
+  useEffect(() => {
+    const handleFontsLoaded = () => setFontLoadCount(count => count + 1);
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, []);
+
+  // Redraw synchronously whenever the design or its loaded images change
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    renderLabel(labelData, productInfo, {
+      size: designSize,
+      images: { background: backgroundImage, elements: elementImages },
+      cornerRadius
+    }, ctx);
+  }, [labelData, productInfo, backgroundImage, elementImages, fontLoadCount, designSize, cornerRadius, pixelRatio]);
 
   return (
     <div className="max-w-6xl mx-auto space-y-6">
-      <div className="text-center">
-        <h1 className="text-3xl font-bold text-foreground mb-2">Coffee Label Designer</h1>
-        <p className="text-muted-foreground">Create your custom coffee label</p>
-      </div>
+      {!embedded && (
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Coffee Label Designer</h1>
+          <p className="text-muted-foreground">Create your custom coffee label</p>
+        </div>
+      )}
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Canvas */}
         <div className="lg:col-span-2">
-          <div className="relative border-2 border-muted shadow-lg mx-auto" style={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}>
-            <canvas
-              ref={canvasRef}
-              width={CANVAS_WIDTH}
-              height={CANVAS_HEIGHT}
-              className="absolute top-0 left-0 pointer-events-none"
-              style={{ zIndex: 0 }}
-            />
-            
-            {/* Interactive overlay - positioned exactly over canvas */}
+          <div className="flex flex-wrap justify-center gap-2 mb-2">
+            {history && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4 mr-1" />
+                  Redo
+                </Button>
+              </>
+            )}
+            <CanvasZoomControls zoom={zoom} scale={scale} onZoomChange={setZoom} />
+            <CanvasGuidesControls settings={guideSettings} onSettingsChange={updateGuideSettings} />
+          </div>
+          {/* Scrolls to pan when zoomed in; Space+drag or a middle-button drag
+              pans too */}
+          <div
+            ref={viewportRef}
+            className={`overflow-auto ${isSpaceHeld ? 'cursor-grab' : ''}`}
+            style={{ maxHeight: `${FIT_VIEWPORT_HEIGHT * 100}vh` }}
+            onPointerDownCapture={handleViewportPointerDown}
+          >
             <div
-              ref={overlayRef}
-              className="absolute top-0 left-0 pointer-events-auto"
-              onClick={(e) => {
-                e.stopPropagation();
-                setSelectedTextBoxIndex(null);
-                setIsCoffeeNameSelected(false);
-              }}
-              style={{
-                width: CANVAS_WIDTH,
-                height: CANVAS_HEIGHT,
-                zIndex: 5,
-                overflow: 'hidden'
-              }}
+              className="relative mx-auto"
+              style={{ width: contentSize.width * scale, height: contentSize.height * scale }}
             >
-              {/* Coffee Name Interactive Area */}
               <div
-                className={`absolute transition-colors ${
-                  isMobile 
-                    ? `cursor-pointer ${isCoffeeNameSelected ? 'bg-blue-200 bg-opacity-40' : 'hover:bg-blue-100 hover:bg-opacity-20'}`
-                    : `cursor-move ${isDraggingCoffeeName ? 'bg-blue-200 bg-opacity-30' : 'hover:bg-blue-100 hover:bg-opacity-20'}`
-                }`}
-                style={{
-                  left: coffeeNamePosition.x - (getCoffeeNameBounds()?.width || 100) / 2 - 10,
-                  top: coffeeNamePosition.y - (getCoffeeNameBounds()?.height || 20) - 5,
-                  width: (getCoffeeNameBounds()?.width || 100) + 20,
-                  height: (getCoffeeNameBounds()?.height || 20) + 10,
-                  zIndex: 10
-                }}
-                onMouseDown={handleCoffeeNameMouseDown}
-                onMouseEnter={() => {
-                  if (!isMobile) {
-                    if (toolbarHoverTimeout) {
-                      clearTimeout(toolbarHoverTimeout);
-                      setToolbarHoverTimeout(null);
-                    }
-                    setIsHoveringCoffeeName(true);
-                  }
-                }}
-                onMouseLeave={() => {
-                  if (!isMobile) {
-                    const timeout = setTimeout(() => {
-                      setIsHoveringCoffeeName(false);
-                    }, 150);
-                    setToolbarHoverTimeout(timeout);
-                  }
-                }}
-                title={isMobile ? "Tap to select coffee name" : "Drag to move coffee name"}
-              />
-              
-              {/* Desktop Floating Toolbar */}
-              <CoffeeNameToolbar
-                position={coffeeNamePosition}
-                bounds={getCoffeeNameBounds()}
-                font={labelData.coffeeNameFont || 'serif'}
-                color={labelData.coffeeNameColor || '#ffffff'}
-                fontSize={labelData.coffeeNameFontSize || 32}
-                onFontChange={updateCoffeeNameFont}
-                onColorChange={updateCoffeeNameColor}
-                onFontSizeChange={updateCoffeeNameFontSize}
-                isVisible={isHoveringCoffeeName && !isDraggingCoffeeName}
-                canvasWidth={CANVAS_WIDTH}
-                canvasHeight={CANVAS_HEIGHT}
-                onMouseEnter={() => {
-                  if (toolbarHoverTimeout) {
-                    clearTimeout(toolbarHoverTimeout);
-                    setToolbarHoverTimeout(null);
-                  }
-                }}
-                onMouseLeave={() => {
-                  const timeout = setTimeout(() => {
-                    setIsHoveringCoffeeName(false);
-                  }, 150);
-                  setToolbarHoverTimeout(timeout);
-                }}
-              />
-              {/* Image drag/resize handles only - no image display */}
-              {labelData.backgroundImage && (
+                className="absolute top-0 left-0 origin-top-left"
+                style={{ transform: `scale(${scale})`, paddingTop: rulerOffset, paddingLeft: rulerOffset }}
+              >
                 <div
-                  className="absolute border-2 border-blue-500 cursor-move bg-transparent"
-                  style={{
-                    left: labelData.backgroundImage.x,
-                    top: labelData.backgroundImage.y,
-                    width: labelData.backgroundImage.width,
-                    height: labelData.backgroundImage.height,
-                    transform: `rotate(${labelData.backgroundImage.rotation}deg)`,
-                    zIndex: 1
-                  }}
-                  onMouseDown={(e) => {
-                    e.preventDefault();
-                    e.stopPropagation();
-                    
-                    const startX = e.clientX;
-                    const startY = e.clientY;
-                    const startImageX = labelData.backgroundImage!.x;
-                    const startImageY = labelData.backgroundImage!.y;
-                    
-                    const handleMouseMove = (moveEvent: MouseEvent) => {
-                      const deltaX = moveEvent.clientX - startX;
-                      const deltaY = moveEvent.clientY - startY;
-                      
-                      // Invert the delta to make drag feel intuitive
-                      const newX = startImageX - deltaX;
-                      const newY = startImageY - deltaY;
-                      
-                      onLabelChange({
-                        ...labelData,
-                        backgroundImage: {
-                          ...labelData.backgroundImage!,
-                          x: newX,
-                          y: newY
-                        }
-                      });
-                    };
-                    
-                    const handleMouseUp = () => {
-                      document.removeEventListener('mousemove', handleMouseMove);
-                      document.removeEventListener('mouseup', handleMouseUp);
-                    };
-                    
-                    document.addEventListener('mousemove', handleMouseMove);
-                    document.addEventListener('mouseup', handleMouseUp);
-                  }}
+                  className="relative border-2 border-muted shadow-lg"
+                  style={{ width: designSize.width, height: designSize.height, borderRadius: cornerRadius }}
                 >
-                  {/* Resize handle */}
+                  {guideSettings.showRulers && <CanvasRulers size={designSize} unit={guideSettings.rulerUnit} />}
+                  {guideSettings.showGrid && (
+                    <svg
+                      className="absolute top-0 left-0 pointer-events-none"
+                      width={designSize.width}
+                      height={designSize.height}
+                      style={{ zIndex: 1 }}
+                    >
+                      {(() => {
+                        const lines = getGridLines(designSize, guideSettings.gridSize);
+                        return (
+                          <>
+                            {lines.x.map(x => (
+                              <line key={`x${x}`} x1={x} x2={x} y1={0} y2={designSize.height} stroke="rgba(0, 120, 255, 0.25)" />
+                            ))}
+                            {lines.y.map(y => (
+                              <line key={`y${y}`} x1={0} x2={designSize.width} y1={y} y2={y} stroke="rgba(0, 120, 255, 0.25)" />
+                            ))}
+                          </>
+                        );
+                      })()}
+                    </svg>
+                  )}
+                  {/* Drawn at device resolution for the current zoom, shown at label size */}
+                  <canvas
+                    ref={canvasRef}
+                    width={Math.round(designSize.width * pixelRatio)}
+                    height={Math.round(designSize.height * pixelRatio)}
+                    className="absolute top-0 left-0 pointer-events-none"
+                    style={{ zIndex: 0, width: designSize.width, height: designSize.height }}
+                  />
+            
+                  {/* Interactive overlay - positioned exactly over canvas */}
                   <div
-                    className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize"
-                    onMouseDown={(e) => {
-                      e.preventDefault();
+                    ref={overlayRef}
+                    className="absolute top-0 left-0 pointer-events-auto"
+                    onPointerDown={handleOverlayPointerDown}
+                    onClick={(e) => {
                       e.stopPropagation();
-                      
-                      const startX = e.clientX;
-                      const startY = e.clientY;
-                      const startWidth = labelData.backgroundImage!.width;
-                      const startHeight = labelData.backgroundImage!.height;
-                      const aspectRatio = labelData.backgroundImage!.originalWidth / labelData.backgroundImage!.originalHeight;
-                      
-                      const handleMouseMove = (moveEvent: MouseEvent) => {
-                        const deltaX = moveEvent.clientX - startX;
-                        
-                        // Calculate new width based on drag distance
-                        let newWidth = Math.max(20, Math.min(CANVAS_WIDTH - labelData.backgroundImage!.x, startWidth + deltaX));
-                        
-                        // Maintain aspect ratio by calculating height from width
-                        let newHeight = newWidth / aspectRatio;
-                        
-                        // Check if calculated height is within canvas bounds
-                        if (labelData.backgroundImage!.y + newHeight > CANVAS_HEIGHT) {
-                          // If height exceeds canvas, recalculate based on max height
-                          newHeight = CANVAS_HEIGHT - labelData.backgroundImage!.y;
-                          newWidth = newHeight * aspectRatio;
-                        }
-                        
-                        onLabelChange({
-                          ...labelData,
-                          backgroundImage: {
-                            ...labelData.backgroundImage!,
-                            width: newWidth,
-                            height: newHeight
-                          }
-                        });
-                      };
-                      
-                      const handleMouseUp = () => {
-                        document.removeEventListener('mousemove', handleMouseMove);
-                        document.removeEventListener('mouseup', handleMouseUp);
-                      };
-                      
-                      document.addEventListener('mousemove', handleMouseMove);
-                      document.addEventListener('mouseup', handleMouseUp);
+                      if (!marqueeDraggedRef.current) setSelectedElementId(null);
                     }}
-                  />
-                </div>
-              )}
-              
-              {/* Text boxes - LAYER 10 (TOP) */}
-              {labelData.textBoxes.map((textBox, index) => (
-                <div key={`textbox-container-${textBox.id}`} className="relative">
-                  <TextBoxEditor
-                    textBox={textBox}
-                    canvasWidth={CANVAS_WIDTH}
-                    canvasHeight={CANVAS_HEIGHT}
-                    isSelected={selectedTextBoxIndex === index}
-                    onTextBoxChange={(updatedTextBox) => {
-                      updateTextBox(updatedTextBox);
+                    style={{
+                      width: designSize.width,
+                      height: designSize.height,
+                      zIndex: 5,
+                      overflow: 'hidden'
                     }}
-                    onSelect={() => setSelectedTextBoxIndex(index)}
-                  />
-                </div>
-              ))}
+                  >
+                    {/* Desktop Floating Toolbar */}
+                    <CoffeeNameToolbar
+                      position={coffeeNamePosition}
+                      bounds={coffeeNameBounds}
+                      font={labelData.coffeeNameFont || 'serif'}
+                      color={labelData.coffeeNameColor || '#ffffff'}
+                      fontSize={labelData.coffeeNameFontSize || 32}
+                      onFontChange={updateCoffeeNameFont}
+                      onColorChange={updateCoffeeNameColor}
+                      onFontSizeChange={updateCoffeeNameFontSize}
+                      style={getCoffeeNameStyle(labelData)}
+                      onStyleChange={updateCoffeeNameStyle}
+                      isVisible={isHoveringCoffeeName && !isDraggingCoffeeName}
+                      canvasWidth={designSize.width}
+                      canvasHeight={designSize.height}
+                      onMouseEnter={() => {
+                        if (toolbarHoverTimeout) {
+                          clearTimeout(toolbarHoverTimeout);
+                          setToolbarHoverTimeout(null);
+                        }
+                      }}
+                      onMouseLeave={() => {
+                        const timeout = setTimeout(() => {
+                          setIsHoveringCoffeeName(false);
+                        }, 150);
+                        setToolbarHoverTimeout(timeout);
+                      }}
+                    />
+                    {/* Background photo outline and its rotate/zoom handles */}
+                    {labelData.backgroundImage && (
+                      <BackgroundImageEditor
+                        image={labelData.backgroundImage}
+                        canvasWidth={designSize.width}
+                        canvasHeight={designSize.height}
+                        scale={scale}
+                        isSelected={selectedElementId === BACKGROUND_SELECTION_ID}
+                        handlesZIndex={ELEMENT_Z_INDEX + labelData.elements.length}
+                        onImageChange={updateBackgroundImage}
+                        onChangeStart={history?.beginBatch}
+                        onChangeEnd={endChange}
+                        createSnap={() => createSnap()}
+                        onSelect={() => {
+                          if (!marqueeDraggedRef.current) setSelectedElementId(BACKGROUND_SELECTION_ID);
+                        }}
+                        onAdjust={() => setIsAdjustingBackground(true)}
+                      />
+                    )}
+
+                    {/* Every element's hit area, stacked in drawing order. Hidden and locked
+                        elements are left out so clicks reach whatever is below. */}
+                    {labelData.elements.map((element, index) => {
+                      if (element.hidden || element.locked) return null;
+
+                      switch (element.kind) {
+                        case 'coffeeName':
+                          return (
+                            <div
+                              key={element.id}
+                              className={`absolute transition-colors touch-none ${
+                                isMobile 
+                                  ? `cursor-pointer ${selectedIds.includes(COFFEE_NAME_LAYER_ID) ? 'bg-blue-200 bg-opacity-40' : 'hover:bg-blue-100 hover:bg-opacity-20'}`
+                                  : `cursor-move ${isDraggingCoffeeName ? 'bg-blue-200 bg-opacity-30' : 'hover:bg-blue-100 hover:bg-opacity-20'}`
+                              }`}
+                              style={{
+                                left: coffeeNameBounds.x - 10,
+                                top: coffeeNameBounds.y - 5,
+                                width: coffeeNameBounds.width + 20,
+                                height: coffeeNameBounds.height + 10,
+                                // Turn around the name's position, as the renderer does
+                                transformOrigin: `${coffeeNamePosition.x - coffeeNameBounds.x + 10}px ${coffeeNamePosition.y - coffeeNameBounds.y + 5}px`,
+                                transform: labelData.coffeeNameRotation ? `rotate(${labelData.coffeeNameRotation}deg)` : undefined,
+                                zIndex: ELEMENT_Z_INDEX + index
+                              }}
+                              onPointerDown={handleCoffeeNamePointerDown}
+                              onClick={(e) => e.stopPropagation()}
+                              onMouseEnter={() => {
+                                if (!isMobile) {
+                                  if (toolbarHoverTimeout) {
+                                    clearTimeout(toolbarHoverTimeout);
+                                    setToolbarHoverTimeout(null);
+                                  }
+                                  setIsHoveringCoffeeName(true);
+                                }
+                              }}
+                              onMouseLeave={() => {
+                                if (!isMobile) {
+                                  const timeout = setTimeout(() => {
+                                    setIsHoveringCoffeeName(false);
+                                  }, 150);
+                                  setToolbarHoverTimeout(timeout);
+                                }
+                              }}
+                              title={isMobile ? "Tap to select, drag to move coffee name" : "Drag to move coffee name"}
+                            >
+                              {isCoffeeNameSelected && (
+                                <RotateHandle
+                                  rotation={labelData.coffeeNameRotation || 0}
+                                  getPivot={() => {
+                                    const rect = overlayRef.current!.getBoundingClientRect();
+                                    return {
+                                      x: rect.left + coffeeNamePosition.x * scale,
+                                      y: rect.top + coffeeNamePosition.y * scale
+                                    };
+                                  }}
+                                  onRotate={updateCoffeeNameRotation}
+                                  onChangeStart={history?.beginBatch}
+                                  onChangeEnd={history?.endBatch}
+                                  className="left-1/2 -top-6 -ml-1.5"
+                                />
+                              )}
+                            </div>
+                          );
+                        case 'footer':
+                          return (
+                            <ProductFooterEditor
+                              key={element.id}
+                              footer={footer}
+                              canvasWidth={designSize.width}
+                              canvasHeight={designSize.height}
+                              scale={scale}
+                              isSelected={selectedIds.includes(element.id)}
+                              zIndex={ELEMENT_Z_INDEX + index}
+                              onFooterChange={updateFooter}
+                              onChangeStart={history?.beginBatch}
+                              onChangeEnd={endChange}
+                              onSelect={(additive) => selectElement(element.id, additive)}
+                              createSnap={() => createSnap(element.id)}
+                            />
+                          );
+                        case 'image':
+                          return (
+                            <ImageBoxEditor
+                              key={element.id}
+                              imageBox={element}
+                              canvasWidth={designSize.width}
+                              canvasHeight={designSize.height}
+                              scale={scale}
+                              isSelected={selectedIds.includes(element.id)}
+                              zIndex={ELEMENT_Z_INDEX + index}
+                              onImageBoxChange={updateImageBox}
+                              onChangeStart={history?.beginBatch}
+                              onChangeEnd={endChange}
+                              onSelect={(additive) => selectElement(element.id, additive)}
+                              createSnap={() => createSnap(element.id)}
+                            />
+                          );
+                        case 'text':
+                          return (
+                            <div key={element.id} className="relative">
+                              <TextBoxEditor
+                                textBox={element}
+                                canvasWidth={designSize.width}
+                                canvasHeight={designSize.height}
+                                scale={scale}
+                                isSelected={selectedIds.includes(element.id)}
+                                zIndex={ELEMENT_Z_INDEX + index}
+                                measure={measureText}
+                                onTextBoxChange={(updatedTextBox) => {
+                                  updateTextBox(updatedTextBox);
+                                }}
+                                onChangeStart={history?.beginBatch}
+                                onChangeEnd={endChange}
+                                onChangeCancel={history?.cancelBatch}
+                                onSelect={(additive) => selectElement(element.id, additive)}
+                                createSnap={() => createSnap(element.id)}
+                              />
+                            </div>
+                          );
+                      }
+                    })}
               
-              {/* Floating toolbar for selected text box */}
-              {selectedTextBoxIndex !== null && (
-                <FreeTextToolbar
-                  isVisible={true}
-                  selectedTextBox={labelData.textBoxes[selectedTextBoxIndex]}
-                  onFontChange={updateSelectedTextBoxFont}
-                  onColorChange={updateSelectedTextBoxColor}
-                  onFontSizeChange={updateSelectedTextBoxFontSize}
-                  onDelete={deleteSelectedTextBox}
-                  position={{
-                    x: labelData.textBoxes[selectedTextBoxIndex].x + 350,
-                    y: labelData.textBoxes[selectedTextBoxIndex].y - 60
-                  }}
-                />
-              )}
+                    {/* Outline around a multi-selection, and the marquee being dragged */}
+                    {selectionBounds && (
+                      <div
+                        className="absolute border border-dashed border-blue-500 pointer-events-none"
+                        style={{
+                          left: selectionBounds.x - 4,
+                          top: selectionBounds.y - 4,
+                          width: selectionBounds.width + 8,
+                          height: selectionBounds.height + 8,
+                          zIndex: ELEMENT_Z_INDEX + labelData.elements.length
+                        }}
+                      />
+                    )}
+                    {marquee && (
+                      <div
+                        className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none"
+                        style={{
+                          left: marquee.x,
+                          top: marquee.y,
+                          width: marquee.width,
+                          height: marquee.height,
+                          zIndex: ELEMENT_Z_INDEX + labelData.elements.length + 1
+                        }}
+                      />
+                    )}
+
+                    {/* Smart guides for the current snap */}
+                    {snapGuides.map(guide => (
+                      <div
+                        key={`${guide.axis}${guide.position}`}
+                        className="absolute bg-fuchsia-500 pointer-events-none"
+                        style={{
+                          ...(guide.axis === 'x'
+                            ? { left: guide.position, top: 0, width: 1, height: designSize.height }
+                            : { left: 0, top: guide.position, width: designSize.width, height: 1 }),
+                          zIndex: ELEMENT_Z_INDEX + labelData.elements.length + 1
+                        }}
+                      />
+                    ))}
+
+                    {/* Floating toolbar for selected text box */}
+                    {selectedTextBox && (
+                      <FreeTextToolbar
+                        isVisible={true}
+                        selectedTextBox={selectedTextBox}
+                        onFontChange={updateSelectedTextBoxFont}
+                        onColorChange={updateSelectedTextBoxColor}
+                        onFontSizeChange={updateSelectedTextBoxFontSize}
+                        onTextBoxChange={updateTextBox}
+                        onDelete={deleteSelectedElement}
+                        position={{
+                          x: selectedTextBox.x + 350,
+                          y: selectedTextBox.y - 60
+                        }}
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
         </div>
 
         {/* Controls */}
         <div className="space-y-4">
+          {/* Label stock */}
+          <LabelStockSelector
+            label="Label Stock"
+            value={stock.id}
+            onChange={updateLabelStock}
+          />
+
+          <LayersPanel
+            elements={labelData.elements}
+            selectedIds={selectedIds}
+            onSelect={selectElement}
+            onElementChange={(element) => onLabelChange(updateElement(labelData, element))}
+            onMove={(id, direction) => onLabelChange(moveElement(labelData, id, direction))}
+          />
+
+          {arrangeIds.length > 0 && (
+            <AlignmentPanel
+              selectedCount={arrangeIds.length}
+              unitCount={countUnits(labelData, arrangeIds)}
+              canUngroup={labelData.elements.some(element => arrangeIds.includes(element.id) && element.groupId)}
+              alignTarget={alignTarget}
+              onAlignTargetChange={setAlignTarget}
+              onAlign={(edge) => onLabelChange(alignElements(labelData, arrangeIds, edge, alignTarget, boundsContext))}
+              onDistribute={(axis) => onLabelChange(distributeElements(labelData, arrangeIds, axis, boundsContext))}
+              onGroup={groupSelection}
+              onUngroup={ungroupSelection}
+            />
+          )}
+
           {/* Coffee Name Display and Styling */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Coffee Name Style</label>
             <div className={`p-3 border border-border rounded-md transition-colors ${
-              isMobile && isCoffeeNameSelected ? 'bg-blue-50 border-blue-300' : 'bg-muted/20'
+              isCoffeeNameSelected ? 'bg-blue-50 border-blue-300' : 'bg-muted/20'
             }`}>
               <div className="flex items-center justify-between mb-2">
                 <div className="text-sm text-muted-foreground">
@@ -794,7 +1360,7 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setIsCoffeeNameSelected(false)}
+                    onClick={() => setSelectedElementId(null)}
                     className="h-6 w-6 p-0"
                   >
                     <X className="h-4 w-4" />
@@ -818,8 +1384,8 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
                     <label className="text-xs font-medium">Font Size</label>
                     <input
                       type="range"
-                      min="16"
-                      max="48"
+                      min={COFFEE_NAME_MIN_FONT_SIZE}
+                      max={COFFEE_NAME_MAX_FONT_SIZE}
                       value={labelData.coffeeNameFontSize || 32}
                       onChange={(e) => updateCoffeeNameFontSize(parseInt(e.target.value))}
                       className="w-full"
@@ -830,6 +1396,20 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
                       <span>48px</span>
                     </div>
                   </div>
+                  <TextTransformControls
+                    rotation={labelData.coffeeNameRotation || 0}
+                    onRotationChange={updateCoffeeNameRotation}
+                    warp={labelData.coffeeNameWarp}
+                    onWarpChange={updateCoffeeNameWarp}
+                  />
+                  <TextStyleControls
+                    style={getCoffeeNameStyle(labelData)}
+                    onStyleChange={updateCoffeeNameStyle}
+                  />
+                  <TextEffectsControls
+                    effects={getCoffeeNameEffects(labelData)}
+                    onEffectsChange={updateCoffeeNameEffects}
+                  />
                 </div>
               )}
               {/* Mobile hint when not selected */}
@@ -841,15 +1421,52 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
             </div>
           </div>
 
+          <ProductFooterPanel
+            footer={footer}
+            isSelected={isFooterSelected}
+            onFooterChange={updateFooter}
+            onSaveBrandDefault={saveFooterAsBrandDefault}
+            onApplyBrandDefault={applyBrandFooter}
+          />
+
+          <RoastInfoPanel
+            roast={roast}
+            footer={footer}
+            coffeeName={coffeeNameText}
+            values={resolveRoastValues(roast, coffeeNameText)}
+            onChange={updateRoast}
+          />
+
+          {selectedImageBox && (
+            <ImageBoxPanel
+              imageBox={selectedImageBox}
+              canMoveUp={selectedElementIndex < labelData.elements.length - 1}
+              canMoveDown={selectedElementIndex > 0}
+              onImageBoxChange={updateImageBox}
+              onCrop={() => setCroppingImageId(selectedImageBox.id)}
+              onMove={(direction) => onLabelChange(moveElement(labelData, selectedImageBox.id, direction))}
+              onDelete={deleteSelectedElement}
+            />
+          )}
+
           {/* Action Buttons */}
-          <div className="grid grid-cols-3 gap-2">
+          <div className="grid grid-cols-2 gap-2">
             <Button
               onClick={() => fileInputRef.current?.click()}
               variant="outline"
               className="w-full"
             >
               <Image className="w-4 h-4 mr-2" />
-              Upload Image
+              Background
+            </Button>
+
+            <Button
+              onClick={() => imageBoxInputRef.current?.click()}
+              variant="outline"
+              className="w-full"
+            >
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add Image
             </Button>
             
             <Button
@@ -871,6 +1488,28 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
             </Button>
           </div>
 
+          {onDesignSaved && onOpenDesign && (
+            <SavedDesignsPanel
+              labelData={labelData}
+              productInfo={productInfo}
+              designId={designId}
+              onDesignSaved={onDesignSaved}
+              onOpenDesign={(design) => {
+                onOpenDesign(design);
+                setSelectedElementId(null);
+              }}
+            />
+          )}
+
+          {storeReturn && onDesignSaved && (
+            <ShopifyHandoffButton
+              labelData={labelData}
+              productInfo={productInfo}
+              designId={designId}
+              target={storeReturn}
+              onDesignSaved={onDesignSaved}
+            />
+          )}
 
           {/* Download */}
           <Button
@@ -880,6 +1519,98 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
             <Download className="w-4 h-4 mr-2" />
             Download Label
           </Button>
+
+          {/* Print-resolution export */}
+          <div className="flex gap-2">
+            <select
+              value={printDpi}
+              onChange={(e) => setPrintDpi(parseInt(e.target.value))}
+              className="px-2 py-1 text-sm border border-border rounded-md bg-background"
+              title="Print resolution"
+            >
+              {PRINT_DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>{dpi} DPI</option>
+              ))}
+            </select>
+            <Button
+              onClick={downloadPrintFile}
+              variant="outline"
+              className="flex-1"
+              disabled={isExporting}
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              {isExporting ? 'Exporting...' : `Print File (${stock.description})`}
+            </Button>
+          </div>
+
+          {/* Vector PDF export for the print shop */}
+          <div className="p-3 border border-border rounded-md bg-muted/20 space-y-3">
+            <label className="text-sm font-medium">Print-Ready PDF</label>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium">Bleed</span>
+              <select
+                value={pdfOptions.bleedInches ?? ''}
+                onChange={(e) => setPdfOptions({
+                  ...pdfOptions,
+                  bleedInches: e.target.value === '' ? null : parseFloat(e.target.value)
+                })}
+                className="px-2 py-1 border border-border rounded bg-background"
+              >
+                <option value="">Stock default ({stock.bleedInches} in)</option>
+                {PDF_BLEED_OPTIONS.map((bleed) => (
+                  <option key={bleed} value={bleed}>{bleed === 0 ? 'None' : `${bleed} in`}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={pdfOptions.cropMarks}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, cropMarks: e.target.checked })}
+              />
+              Crop marks
+            </label>
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={pdfOptions.showSafeArea}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, showSafeArea: e.target.checked })}
+              />
+              Safe-area guide ({stock.safeMarginInches} in)
+            </label>
+            <Button
+              onClick={downloadPdf}
+              variant="outline"
+              className="w-full"
+              disabled={isExporting}
+            >
+              <FileDown className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+          </div>
+
+          {/* Editable vector file for finishing in Illustrator/Inkscape */}
+          <Button
+            onClick={downloadSvg}
+            variant="outline"
+            className="w-full"
+            disabled={isExporting}
+          >
+            <FileCode className="w-4 h-4 mr-2" />
+            Download SVG
+          </Button>
+
+          {/* Design file */}
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={exportDesign} variant="outline" className="w-full">
+              <FileJson className="w-4 h-4 mr-2" />
+              Export Design (.json)
+            </Button>
+            <Button onClick={() => designInputRef.current?.click()} variant="outline" className="w-full">
+              <Upload className="w-4 h-4 mr-2" />
+              Import Design
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -890,6 +1621,20 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
         onChange={handleImageUpload}
         className="hidden"
       />
+      <input
+        ref={imageBoxInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleImageBoxUpload}
+        className="hidden"
+      />
+      <input
+        ref={designInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleDesignImport}
+        className="hidden"
+      />
 
       {/* Image Adjustment Modal */}
       {tempImageUrl && (
@@ -897,8 +1642,46 @@ export const LabelDesigner: React.FC<LabelDesignerProps> = ({
           imageUrl={tempImageUrl}
           onConfirm={handleImageConfirm}
           onCancel={handleImageCancel}
-          canvasWidth={CANVAS_WIDTH}
-          canvasHeight={CANVAS_HEIGHT}
+          canvasWidth={designSize.width}
+          canvasHeight={designSize.height}
+        />
+      )}
+
+      {/* Re-adjust the current background */}
+      {isAdjustingBackground && labelData.backgroundImage && (
+        <ImageAdjustModal
+          imageUrl={labelData.backgroundImage.url}
+          initialCrop={labelData.backgroundImage}
+          initialTransform={labelData.backgroundImage}
+          onConfirm={(adjusted) => {
+            updateBackgroundImage(adjusted);
+            setIsAdjustingBackground(false);
+          }}
+          onCancel={() => setIsAdjustingBackground(false)}
+          canvasWidth={designSize.width}
+          canvasHeight={designSize.height}
+        />
+      )}
+
+      {/* Re-crop an image element, framed at the box's aspect ratio */}
+      {croppingImage && (
+        <ImageAdjustModal
+          imageUrl={croppingImage.url}
+          initialCrop={croppingImage.crop}
+          initialTransform={croppingImage}
+          allowRotation={false}
+          onConfirm={(cropped) => {
+            updateImageBox({
+              ...croppingImage,
+              crop: { x: cropped.x, y: cropped.y, width: cropped.width, height: cropped.height },
+              flipX: cropped.flipX,
+              flipY: cropped.flipY
+            });
+            setCroppingImageId(null);
+          }}
+          onCancel={() => setCroppingImageId(null)}
+          canvasWidth={CROP_FRAME_SIZE * Math.min(1, croppingImage.width / croppingImage.height)}
+          canvasHeight={CROP_FRAME_SIZE * Math.min(1, croppingImage.height / croppingImage.width)}
         />
       )}
     </div>
@@ -0,0 +1,35 @@
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LABEL_STOCKS } from '@/lib/labelStock';
+
+interface LabelStockSelectorProps {
+  value: string;
+  onChange: (stockId: string) => void;
+  label?: string;
+}
+
+export const LabelStockSelector: React.FC<LabelStockSelectorProps> = ({ value, onChange, label }) => {
+  return (
+    <div className="space-y-2">
+      {label && <label className="text-sm font-medium text-foreground">{label}</label>}
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select label stock..." />
+        </SelectTrigger>
+        <SelectContent>
+          {LABEL_STOCKS.map((stock) => (
+            <SelectItem key={stock.id} value={stock.id}>
+              {stock.name} ({stock.description})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
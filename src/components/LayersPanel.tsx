@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowUp, ArrowDown, Eye, EyeOff, Lock, Unlock, Type, Image, Heading, Rows3, Link2 } from 'lucide-react';
+import { LabelElement } from '@/types/label';
+import { getLayerName } from '@/lib/labelElements';
+
+interface LayersPanelProps {
+  elements: LabelElement[];
+  selectedIds: string[];
+  // Additive when Shift is held, to build up a multi-selection
+  onSelect: (id: string, additive: boolean) => void;
+  onElementChange: (element: LabelElement) => void;
+  onMove: (id: string, direction: 1 | -1) => void;
+}
+
+const LAYER_ICONS = {
+  text: Type,
+  image: Image,
+  coffeeName: Heading,
+  footer: Rows3
+};
+
+// The element stack, topmost first. Double-click a name to rename it.
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  elements,
+  selectedIds,
+  onSelect,
+  onElementChange,
+  onMove
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (element: LabelElement) => {
+    setRenamingId(element.id);
+    setDraftName(getLayerName(element));
+  };
+
+  // An empty name falls back to the default description
+  const commitRename = (element: LabelElement) => {
+    setRenamingId(null);
+    const name = draftName.trim();
+    if (name !== getLayerName(element)) {
+      onElementChange({ ...element, name: name || undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Layers</label>
+      <div className="border border-border rounded-md divide-y divide-border text-xs">
+        {elements.map((element, index) => ({ element, index })).reverse().map(({ element, index }) => {
+          const Icon = LAYER_ICONS[element.kind];
+          const isSelected = selectedIds.includes(element.id);
+
+          return (
+            <div
+              key={element.id}
+              className={`flex items-center gap-1 px-2 py-1 cursor-pointer ${
+                isSelected ? 'bg-blue-50' : 'hover:bg-muted/40'
+              } ${element.hidden ? 'text-muted-foreground' : ''}`}
+              onClick={(e) => onSelect(element.id, e.shiftKey)}
+            >
+              <Icon className="w-3 h-3 shrink-0" />
+              {element.groupId && <Link2 className="w-3 h-3 shrink-0 text-blue-500" aria-label="Grouped" />}
+              {renamingId === element.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => commitRename(element)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(element);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 px-1 border border-border rounded bg-background"
+                />
+              ) : (
+                <span
+                  className="flex-1 min-w-0 truncate"
+                  onDoubleClick={() => startRename(element)}
+                  title="Double-click to rename"
+                >
+                  {getLayerName(element)}
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onElementChange({ ...element, hidden: !element.hidden });
+                }}
+                title={element.hidden ? 'Show' : 'Hide'}
+              >
+                {element.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onElementChange({ ...element, locked: !element.locked });
+                }}
+                title={element.locked ? 'Unlock' : 'Lock'}
+              >
+                {element.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(element.id, 1);
+                }}
+                disabled={index === elements.length - 1}
+                title="Bring forward"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(element.id, -1);
+                }}
+                disabled={index === 0}
+                title="Send backward"
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ProductInfoFooter } from '@/types/label';
+import { SnapMove } from '@/lib/labelSnapping';
+import { trackPointerDrag } from '@/lib/pointerGestures';
+
+interface ProductFooterEditorProps {
+  footer: ProductInfoFooter;
+  canvasWidth: number;
+  canvasHeight: number;
+  // Screen pixels per design unit at the current zoom, to turn pointer
+  // movement into label units
+  scale: number;
+  isSelected: boolean;
+  zIndex: number;
+  onFooterChange: (footer: ProductInfoFooter) => void;
+  // Bracket a drag so it can be undone as one step
+  onChangeStart?: () => void;
+  onChangeEnd?: () => void;
+  // Additive when Shift is held, to build up a multi-selection
+  onSelect: (additive: boolean) => void;
+  // Called as a drag starts, for what pulls it onto nearby guides; holding
+  // Alt drags freely
+  createSnap?: () => SnapMove | undefined;
+}
+
+const MIN_WIDTH = 100;
+const MIN_HEIGHT = 40;
+
+// Drag/resize hit area over the rendered footer - the footer itself is drawn
+// on the canvas
+export const ProductFooterEditor: React.FC<ProductFooterEditorProps> = ({
+  footer,
+  canvasWidth,
+  canvasHeight,
+  scale,
+  isSelected,
+  zIndex,
+  onFooterChange,
+  onChangeStart,
+  onChangeEnd,
+  onSelect,
+  createSnap
+}) => {
+  const startDrag = (e: React.PointerEvent, mode: 'move' | 'resize') => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(e.shiftKey);
+    onChangeStart?.();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const start = { ...footer };
+    const snapMove = createSnap?.();
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const deltaX = (moveEvent.clientX - startX) / scale;
+      const deltaY = (moveEvent.clientY - startY) / scale;
+
+      if (mode === 'move') {
+        let x = start.x + deltaX;
+        let y = start.y + deltaY;
+        if (snapMove && !moveEvent.altKey) {
+          const snap = snapMove({ x, y, width: start.width, height: start.height });
+          x += snap.dx;
+          y += snap.dy;
+        }
+        onFooterChange({
+          ...start,
+          x: Math.max(0, Math.min(canvasWidth - start.width, x)),
+          y: Math.max(0, Math.min(canvasHeight - start.height, y))
+        });
+      } else {
+        onFooterChange({
+          ...start,
+          width: Math.max(MIN_WIDTH, Math.min(canvasWidth - start.x, start.width + deltaX)),
+          height: Math.max(MIN_HEIGHT, Math.min(canvasHeight - start.y, start.height + deltaY))
+        });
+      }
+    };
+
+    trackPointerDrag(e, { onMove: handleMove, onEnd: () => onChangeEnd?.() });
+  };
+
+  return (
+    <div
+      className={`absolute cursor-move rounded touch-none ${
+        isSelected ? 'border-2 border-blue-500' : 'border border-transparent hover:border-blue-300'
+      }`}
+      style={{
+        left: footer.x,
+        top: footer.y,
+        width: footer.width,
+        height: footer.height,
+        zIndex
+      }}
+      onPointerDown={(e) => startDrag(e, 'move')}
+      onClick={(e) => e.stopPropagation()}
+      title="Drag to move product info"
+    >
+      {isSelected && (
+        <div
+          className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize touch-none"
+          onPointerDown={(e) => startDrag(e, 'resize')}
+        />
+      )}
+    </div>
+  );
+};
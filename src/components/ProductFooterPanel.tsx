@@ -0,0 +1,174 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Plus, Save, RotateCcw, Trash2, Columns, X } from 'lucide-react';
+import { FontSelector } from './FontSelector';
+import { ColorPicker } from './ColorPicker';
+import { FooterLine, ProductInfoFooter } from '@/types/label';
+import { FOOTER_PLACEHOLDERS, createFooterLine } from '@/lib/productFooter';
+
+interface ProductFooterPanelProps {
+  footer: ProductInfoFooter;
+  isSelected: boolean;
+  onFooterChange: (footer: ProductInfoFooter) => void;
+  onSaveBrandDefault: () => void;
+  onApplyBrandDefault: () => void;
+}
+
+export const ProductFooterPanel: React.FC<ProductFooterPanelProps> = ({
+  footer,
+  isSelected,
+  onFooterChange,
+  onSaveBrandDefault,
+  onApplyBrandDefault
+}) => {
+  const updateLine = (index: number, line: FooterLine) => {
+    onFooterChange({
+      ...footer,
+      lines: footer.lines.map((l, i) => (i === index ? line : l))
+    });
+  };
+
+  const removeLine = (index: number) => {
+    onFooterChange({
+      ...footer,
+      lines: footer.lines.filter((_, i) => i !== index)
+    });
+  };
+
+  const addLine = () => {
+    const lastLine = footer.lines[footer.lines.length - 1];
+    onFooterChange({
+      ...footer,
+      lines: [...footer.lines, createFooterLine(lastLine?.fontSize || 11)]
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Product Info Footer</label>
+      <div className={`p-3 border rounded-md space-y-3 transition-colors ${
+        isSelected ? 'bg-blue-50 border-blue-300' : 'bg-muted/20 border-border'
+      }`}>
+        {/* Lines */}
+        <div className="space-y-2">
+          {footer.lines.map((line, index) => (
+            <div key={line.id} className="flex items-center gap-1">
+              {line.segments.map((segment, segmentIndex) => (
+                <input
+                  key={segmentIndex}
+                  type="text"
+                  value={segment}
+                  onChange={(e) => updateLine(index, {
+                    ...line,
+                    segments: line.segments.map((s, i) => (i === segmentIndex ? e.target.value : s))
+                  })}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-border rounded bg-background"
+                />
+              ))}
+              <input
+                type="number"
+                min="6"
+                max="36"
+                value={Math.round(line.fontSize)}
+                onChange={(e) => updateLine(index, { ...line, fontSize: parseInt(e.target.value) || line.fontSize })}
+                className="w-12 px-1 py-1 text-xs border border-border rounded bg-background"
+                title="Font size"
+              />
+              <select
+                value={line.anchor}
+                onChange={(e) => updateLine(index, { ...line, anchor: e.target.value as FooterLine['anchor'] })}
+                className="px-1 py-1 text-xs border border-border rounded bg-background"
+                title="Stack from the top or bottom of the footer"
+              >
+                <option value="top">Top</option>
+                <option value="bottom">Bottom</option>
+              </select>
+              {line.segments.length < 3 ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateLine(index, { ...line, segments: [...line.segments, ''] })}
+                  className="h-6 w-6 p-0"
+                  title="Add column"
+                >
+                  <Columns className="h-3 w-3" />
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateLine(index, { ...line, segments: line.segments.slice(0, 1) })}
+                  className="h-6 w-6 p-0"
+                  title="Merge columns"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeLine(index)}
+                className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                title="Remove line"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addLine} className="w-full">
+            <Plus className="w-3 h-3 mr-1" />
+            Add Line
+          </Button>
+          <div className="text-xs text-muted-foreground">
+            Placeholders: {FOOTER_PLACEHOLDERS.map(p => p.token).join(' ')}
+          </div>
+        </div>
+
+        {/* Styling */}
+        <div className="flex gap-2">
+          <FontSelector
+            value={footer.fontFamily}
+            onChange={(fontFamily) => onFooterChange({ ...footer, fontFamily })}
+          />
+          <ColorPicker
+            value={footer.color}
+            onChange={(color) => onFooterChange({ ...footer, color })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-medium">Background</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={footer.backgroundColor}
+              onChange={(e) => onFooterChange({ ...footer, backgroundColor: e.target.value })}
+              className="w-6 h-6 rounded border border-border cursor-pointer"
+              title={`Background: ${footer.backgroundColor}`}
+            />
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(footer.backgroundOpacity * 100)}
+              onChange={(e) => onFooterChange({ ...footer, backgroundOpacity: parseInt(e.target.value) / 100 })}
+              className="flex-1"
+            />
+            <span className="text-xs text-muted-foreground w-10">{Math.round(footer.backgroundOpacity * 100)}%</span>
+          </div>
+        </div>
+
+        {/* Brand defaults */}
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" onClick={onSaveBrandDefault}>
+            <Save className="w-3 h-3 mr-1" />
+            Save as Brand
+          </Button>
+          <Button variant="outline" size="sm" onClick={onApplyBrandDefault}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Use Brand
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
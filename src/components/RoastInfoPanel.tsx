@@ -0,0 +1,132 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+import { ProductInfoFooter, RoastDateFormat, RoastInfo } from '@/types/label';
+import {
+  DEFAULT_BEST_BY_DAYS,
+  ROAST_DATE_FORMATS,
+  RoastValues,
+  generateLotCode,
+  getRoastDate
+} from '@/lib/roastInfo';
+import { ROAST_FOOTER_LINES, hasFooterLine, setFooterLineShown } from '@/lib/productFooter';
+
+interface RoastInfoPanelProps {
+  roast: RoastInfo;
+  footer: ProductInfoFooter;
+  coffeeName: string;
+  values: RoastValues;
+  // Roast settings and the footer lines that show them change together
+  onChange: (roast: RoastInfo, footer: ProductInfoFooter) => void;
+}
+
+export const RoastInfoPanel: React.FC<RoastInfoPanelProps> = ({
+  roast,
+  footer,
+  coffeeName,
+  values,
+  onChange
+}) => {
+  const updateRoast = (changes: Partial<RoastInfo>) => onChange({ ...roast, ...changes }, footer);
+
+  const showBestBy = hasFooterLine(footer, ROAST_FOOTER_LINES.bestBy.id);
+  const showLot = hasFooterLine(footer, ROAST_FOOTER_LINES.lot.id);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Roast Date &amp; Lot</label>
+      <div className="p-3 border border-border rounded-md bg-muted/20 space-y-3 text-xs">
+        {/* Roast date */}
+        <div className="flex items-center gap-2">
+          <span className="font-medium w-16">Roasted</span>
+          <input
+            type="date"
+            value={roast.roastDate || ''}
+            onChange={(e) => updateRoast({ roastDate: e.target.value || undefined })}
+            className="flex-1 px-2 py-1 border border-border rounded bg-background"
+          />
+          {roast.roastDate && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateRoast({ roastDate: undefined })}
+              className="h-6 px-2 text-xs"
+              title="Use the day the label is exported"
+            >
+              Today
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="font-medium w-16">Format</span>
+          <select
+            value={roast.dateFormat}
+            onChange={(e) => updateRoast({ dateFormat: e.target.value as RoastDateFormat })}
+            className="flex-1 px-2 py-1 border border-border rounded bg-background"
+          >
+            {ROAST_DATE_FORMATS.map((format) => (
+              <option key={format.id} value={format.id}>{format.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="text-muted-foreground">Prints as: {values.roastDate}</div>
+
+        {/* Best by */}
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 w-28">
+            <input
+              type="checkbox"
+              checked={showBestBy}
+              onChange={(e) => onChange(
+                { ...roast, bestByDays: e.target.checked ? roast.bestByDays || DEFAULT_BEST_BY_DAYS : null },
+                setFooterLineShown(footer, ROAST_FOOTER_LINES.bestBy, e.target.checked)
+              )}
+            />
+            Best by
+          </label>
+          {showBestBy && (
+            <>
+              <input
+                type="number"
+                min="1"
+                max="730"
+                value={roast.bestByDays || DEFAULT_BEST_BY_DAYS}
+                onChange={(e) => updateRoast({ bestByDays: parseInt(e.target.value) || DEFAULT_BEST_BY_DAYS })}
+                className="w-16 px-2 py-1 border border-border rounded bg-background"
+              />
+              <span className="text-muted-foreground">days ({values.bestBy})</span>
+            </>
+          )}
+        </div>
+
+        {/* Lot code */}
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 w-28">
+            <input
+              type="checkbox"
+              checked={showLot}
+              onChange={(e) => onChange(roast, setFooterLineShown(footer, ROAST_FOOTER_LINES.lot, e.target.checked))}
+            />
+            Lot code
+          </label>
+          <input
+            type="text"
+            value={roast.lotCode || ''}
+            placeholder={values.lot}
+            onChange={(e) => updateRoast({ lotCode: e.target.value || undefined })}
+            className="flex-1 min-w-0 px-2 py-1 border border-border rounded bg-background"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateRoast({ lotCode: generateLotCode(getRoastDate(roast), coffeeName) })}
+            className="h-6 w-6 p-0"
+            title="Generate lot code"
+          >
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
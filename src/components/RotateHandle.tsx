@@ -0,0 +1,51 @@
+import React from 'react';
+import { getPointerAngle, normalizeRotation } from '@/lib/imageTransform';
+import { trackPointerDrag } from '@/lib/pointerGestures';
+
+interface RotateHandleProps {
+  rotation: number;
+  // Pivot in client coordinates, looked up when a drag starts
+  getPivot: () => { x: number; y: number };
+  onRotate: (rotation: number) => void;
+  // Bracket a drag so it can be undone as one step
+  onChangeStart?: () => void;
+  onChangeEnd?: () => void;
+  className?: string;
+}
+
+// Round grip that turns an element around a pivot. Hold Shift to snap to 15°.
+export const RotateHandle: React.FC<RotateHandleProps> = ({
+  rotation,
+  getPivot,
+  onRotate,
+  onChangeStart,
+  onChangeEnd,
+  className = ''
+}) => {
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onChangeStart?.();
+
+    const pivot = getPivot();
+    const startAngle = getPointerAngle(pivot, e.clientX, e.clientY);
+    const startRotation = rotation;
+
+    trackPointerDrag(e, {
+      onMove: (moveEvent) => {
+        const angle = getPointerAngle(pivot, moveEvent.clientX, moveEvent.clientY);
+        onRotate(normalizeRotation(startRotation + angle - startAngle, moveEvent.shiftKey));
+      },
+      onEnd: () => onChangeEnd?.()
+    });
+  };
+
+  return (
+    <div
+      className={`absolute w-3 h-3 rounded-full bg-white border-2 border-blue-500 cursor-grab touch-none ${className}`}
+      onPointerDown={handlePointerDown}
+      onClick={(e) => e.stopPropagation()}
+      title="Drag to rotate (Shift snaps to 15°)"
+    />
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Save, FolderOpen, Trash2, Copy, HardDrive } from 'lucide-react';
+import { toast } from 'sonner';
+import { LabelData, ProductInfo } from '@/types/label';
+import { SavedLabel, SavedLabelSummary, deleteLabel, listLabels, loadLabel, saveLabel } from '@/lib/labelStorage';
+
+interface SavedDesignsPanelProps {
+  labelData: LabelData;
+  productInfo?: ProductInfo | null;
+  designId: string | null;
+  onDesignSaved: (design: SavedLabel, savedFrom: LabelData) => void;
+  onOpenDesign: (design: SavedLabel) => void;
+}
+
+export const SavedDesignsPanel: React.FC<SavedDesignsPanelProps> = ({
+  labelData,
+  productInfo,
+  designId,
+  onDesignSaved,
+  onOpenDesign
+}) => {
+  const [designs, setDesigns] = useState<SavedLabelSummary[]>([]);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const productName = productInfo?.name || null;
+
+  const refreshDesigns = useCallback(async () => {
+    try {
+      setDesigns(await listLabels(productName));
+    } catch (error) {
+      console.error('Failed to list saved designs:', error);
+    }
+  }, [productName]);
+
+  useEffect(() => {
+    refreshDesigns();
+  }, [refreshDesigns]);
+
+  const currentDesign = designs.find(design => design.id === designId);
+  const displayName = name || currentDesign?.name || productName || labelData.coffeeName || 'Untitled label';
+
+  const save = async (asNew: boolean) => {
+    setIsSaving(true);
+    try {
+      const saved = await saveLabel({
+        id: asNew ? null : designId,
+        name: displayName,
+        productInfo,
+        data: labelData
+      });
+      onDesignSaved(saved, labelData);
+      setName('');
+      await refreshDesigns();
+      toast.success(saved.location === 'cloud' ? 'Design saved' : 'Design saved on this device');
+    } catch (error) {
+      console.error('Failed to save design:', error);
+      toast.error('Failed to save design');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const open = async (id: string) => {
+    try {
+      const design = await loadLabel(id);
+      if (!design) {
+        toast.error('That design no longer exists');
+        await refreshDesigns();
+        return;
+      }
+      onOpenDesign(design);
+      setName('');
+    } catch (error) {
+      console.error('Failed to open design:', error);
+      toast.error('Failed to open design');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteLabel(id);
+      await refreshDesigns();
+    } catch (error) {
+      console.error('Failed to delete design:', error);
+      toast.error('Failed to delete design');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Saved Designs</label>
+      <div className="p-3 border border-border rounded-md bg-muted/20 space-y-3">
+        <input
+          type="text"
+          value={name}
+          placeholder={displayName}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-2 py-1 text-xs border border-border rounded bg-background"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" onClick={() => save(false)} disabled={isSaving}>
+            <Save className="w-3 h-3 mr-1" />
+            {designId ? 'Save' : 'Save Design'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => save(true)} disabled={isSaving || !designId}>
+            <Copy className="w-3 h-3 mr-1" />
+            Save as New
+          </Button>
+        </div>
+
+        {designs.length > 0 && (
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {designs.map(design => (
+              <div
+                key={design.id}
+                className={`flex items-center gap-1 text-xs rounded px-1 ${
+                  design.id === designId ? 'bg-blue-50' : ''
+                }`}
+              >
+                {design.location === 'local' && (
+                  <HardDrive className="h-3 w-3 text-muted-foreground flex-shrink-0" aria-label="Saved on this device" />
+                )}
+                <span className="flex-1 truncate" title={design.name}>{design.name}</span>
+                <span className="text-muted-foreground">{new Date(design.updatedAt).toLocaleDateString()}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => open(design.id)}
+                  className="h-6 w-6 p-0"
+                  title="Open design"
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(design.id)}
+                  className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                  title="Delete design"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ShoppingCart } from 'lucide-react';
+import { toast } from 'sonner';
+import { LabelData, ProductInfo } from '@/types/label';
+import { SavedLabel } from '@/lib/labelStorage';
+import { ShopifyReturnTarget, handOffDesign, returnToStore } from '@/lib/shopifyHandoff';
+
+interface ShopifyHandoffButtonProps {
+  labelData: LabelData;
+  productInfo?: ProductInfo | null;
+  designId: string | null;
+  target: ShopifyReturnTarget;
+  onDesignSaved: (design: SavedLabel, savedFrom: LabelData) => void;
+}
+
+// Saves the design and sends it back to the product page it was opened from
+export const ShopifyHandoffButton: React.FC<ShopifyHandoffButtonProps> = ({
+  labelData,
+  productInfo,
+  designId,
+  target,
+  onDesignSaved
+}) => {
+  const [isSending, setIsSending] = useState(false);
+
+  const send = async () => {
+    setIsSending(true);
+    try {
+      const { design, handoff } = await handOffDesign({
+        id: designId,
+        name: productInfo?.name || labelData.coffeeName || 'Untitled label',
+        productInfo,
+        data: labelData,
+        target
+      });
+      onDesignSaved(design, labelData);
+      returnToStore(target, handoff);
+      // An embedded designer stays open, so say it went through
+      if (target.mode === 'postMessage') toast.success('Design added to your cart');
+    } catch (error) {
+      console.error('Failed to send design to the store:', error);
+      toast.error('Failed to add the design to your cart');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Button onClick={send} disabled={isSending} className="w-full">
+      <ShoppingCart className="w-4 h-4 mr-2" />
+      {isSending ? 'Adding to Cart...' : 'Add to Cart'}
+    </Button>
+  );
+};
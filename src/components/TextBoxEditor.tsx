@@ -1,141 +1,290 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import { TextBox } from '@/types/label';
+import { MIN_TEXT_BOX_FONT_SIZE, MeasureText, fitTextBoxContent, getTextBoxPadding, getTextBoxStyle } from '@/lib/labelLayout';
+import { ResizeDirection, normalizeRotation, resizeRotatedBox } from '@/lib/imageTransform';
+import { getRotatedBounds } from '@/lib/labelAlignment';
+import { SnapMove } from '@/lib/labelSnapping';
+import { PinchChange, joinPinch, trackPointerDrag } from '@/lib/pointerGestures';
+import { RotateHandle } from './RotateHandle';
 
 interface TextBoxEditorProps {
   textBox: TextBox;
   canvasWidth: number;
   canvasHeight: number;
+  // Screen pixels per design unit at the current zoom, to turn pointer
+  // movement into label units
+  scale: number;
   isSelected: boolean;
+  zIndex: number;
+  // The canvas measurer, so the overlay wraps exactly like the render
+  measure: MeasureText;
   onTextBoxChange: (textBox: TextBox) => void;
-  onSelect: () => void;
+  // Bracket a drag so it can be undone as one step
+  onChangeStart?: () => void;
+  onChangeEnd?: () => void;
+  // Drops everything since onChangeStart, for Escape while editing
+  onChangeCancel?: () => void;
+  // Additive when Shift is held, to build up a multi-selection
+  onSelect: (additive: boolean) => void;
+  // Called as a drag starts, for what pulls it onto nearby guides; holding
+  // Alt drags freely
+  createSnap?: () => SnapMove | undefined;
 }
 
+const MIN_WIDTH = 20;
+const MIN_HEIGHT = 10;
+// Longest gap between the taps of a double tap
+const DOUBLE_TAP_MS = 300;
+
+// Corners and edge midpoints, each dragging the edges it sits on
+const RESIZE_HANDLES: { direction: ResizeDirection; className: string }[] = [
+  { direction: { x: -1, y: -1 }, className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { direction: { x: 0, y: -1 }, className: 'left-1/2 -ml-1.5 -top-1.5 cursor-ns-resize' },
+  { direction: { x: 1, y: -1 }, className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { direction: { x: 1, y: 0 }, className: '-right-1.5 top-1/2 -mt-1.5 cursor-ew-resize' },
+  { direction: { x: 1, y: 1 }, className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { direction: { x: 0, y: 1 }, className: 'left-1/2 -ml-1.5 -bottom-1.5 cursor-ns-resize' },
+  { direction: { x: -1, y: 1 }, className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { direction: { x: -1, y: 0 }, className: '-left-1.5 top-1/2 -mt-1.5 cursor-ew-resize' }
+];
+
 export const TextBoxEditor: React.FC<TextBoxEditorProps> = ({
   textBox,
   canvasWidth,
   canvasHeight,
+  scale,
   isSelected,
+  zIndex,
+  measure,
   onTextBoxChange,
-  onSelect
+  onChangeStart,
+  onChangeEnd,
+  onChangeCancel,
+  onSelect,
+  createSnap
 }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const boxRef = useRef<HTMLDivElement>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [editValue, setEditValue] = useState(textBox.content);
-
-  const handleGlobalMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging) return;
-
-    // Get the overlay container to calculate relative coordinates
-    const overlay = document.querySelector('[style*="zIndex: 5"]') as HTMLElement;
-    if (!overlay) return;
-    
-    const rect = overlay.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    const newX = Math.max(0, Math.min(canvasWidth - textBox.width, x - dragStart.x));
-    const newY = Math.max(0, Math.min(canvasHeight - textBox.height, y - dragStart.y));
-    
-    onTextBoxChange({
-      ...textBox,
-      x: newX,
-      y: newY
-    });
-  }, [isDragging, dragStart, textBox, canvasWidth, canvasHeight, onTextBoxChange]);
-
-  const handleGlobalMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
-
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Content before editing began, for Escape; null when not editing
+  const originalContentRef = useRef<string | null>(null);
+
+  // Touch screens don't reliably send dblclick, so a second quick tap edits
+  const lastTapRef = useRef(0);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Clicks in the textarea place the caret instead
+    if (isEditing || joinPinch(e)) return;
     e.preventDefault();
     e.stopPropagation(); // Prevent click from bubbling to overlay
-    onSelect();
-    
-    setIsDragging(true);
-    // Calculate offset from mouse to top-left of text box
-    setDragStart({ x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY });
-  };
 
-  // Global mouse event listeners
-  useEffect(() => {
-    if (isDragging) {
-      document.addEventListener('mousemove', handleGlobalMouseMove);
-      document.addEventListener('mouseup', handleGlobalMouseUp);
+    if (e.pointerType === 'touch') {
+      const isDoubleTap = e.timeStamp - lastTapRef.current < DOUBLE_TAP_MS;
+      lastTapRef.current = e.timeStamp;
+      if (isDoubleTap) {
+        handleDoubleClick();
+        return;
+      }
     }
 
-    return () => {
-      document.removeEventListener('mousemove', handleGlobalMouseMove);
-      document.removeEventListener('mouseup', handleGlobalMouseUp);
+    onSelect(e.shiftKey);
+    onChangeStart?.();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const start = { ...textBox };
+    const snapMove = createSnap?.();
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      let newX = start.x + (moveEvent.clientX - startX) / scale;
+      let newY = start.y + (moveEvent.clientY - startY) / scale;
+      if (snapMove && !moveEvent.altKey) {
+        const box = { x: newX, y: newY, width: start.width, height: start.height };
+        const center = { x: newX + start.width / 2, y: newY + start.height / 2 };
+        const snap = snapMove(getRotatedBounds(box, center, start.rotation || 0));
+        newX += snap.dx;
+        newY += snap.dy;
+      }
+
+      onTextBoxChange({
+        ...start,
+        x: Math.max(0, Math.min(canvasWidth - start.width, newX)),
+        y: Math.max(0, Math.min(canvasHeight - start.height, newY))
+      });
+    };
+
+    // Two fingers scale the box and its text around the center, and turn it
+    const handlePinch = ({ scale: spread, rotation, dx, dy }: PinchChange) => {
+      const width = Math.max(MIN_WIDTH, start.width * spread);
+      const height = Math.max(MIN_HEIGHT, start.height * spread);
+      onTextBoxChange({
+        ...start,
+        x: start.x + start.width / 2 + dx / scale - width / 2,
+        y: start.y + start.height / 2 + dy / scale - height / 2,
+        width,
+        height,
+        fontSize: Math.max(MIN_TEXT_BOX_FONT_SIZE, Math.round(start.fontSize * spread)),
+        rotation: normalizeRotation((start.rotation || 0) + rotation)
+      });
+    };
+
+    trackPointerDrag(e, { onMove: handleMove, onPinch: handlePinch, onEnd: () => onChangeEnd?.() });
+  };
+
+  // Resizing keeps the opposite edge or corner in place, even when rotated
+  const handleResizeStart = (e: React.PointerEvent, direction: ResizeDirection) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(e.shiftKey);
+    onChangeStart?.();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const start = { ...textBox };
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      onTextBoxChange(resizeRotatedBox(
+        start,
+        start.rotation || 0,
+        direction,
+        (moveEvent.clientX - startX) / scale,
+        (moveEvent.clientY - startY) / scale,
+        { width: MIN_WIDTH, height: MIN_HEIGHT }
+      ));
     };
-  }, [isDragging, handleGlobalMouseMove, handleGlobalMouseUp]);
 
+    trackPointerDrag(e, { onMove: handleMove, onEnd: () => onChangeEnd?.() });
+  };
+
+  // The bounding box of a rotated element is centered on the element
+  const getCenter = () => {
+    const rect = boxRef.current!.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+
+  // Typing updates the text box live so the canvas shows the real wrapping;
+  // the whole edit undoes as one step
   const handleDoubleClick = () => {
+    originalContentRef.current = textBox.content;
+    onChangeStart?.();
     setIsEditing(true);
-    setEditValue(textBox.content);
   };
 
-  const handleEditSubmit = () => {
-    onTextBoxChange({
-      ...textBox,
-      content: editValue
-    });
+  // Cancelling puts the text back without leaving an undo step behind
+  const finishEditing = (cancel = false) => {
+    if (originalContentRef.current === null) return;
+    if (cancel) {
+      if (onChangeCancel) {
+        onChangeCancel();
+      } else {
+        onTextBoxChange({ ...textBox, content: originalContentRef.current });
+      }
+    }
+    originalContentRef.current = null;
     setIsEditing(false);
+    onChangeEnd?.();
   };
 
-  const handleEditCancel = () => {
-    setEditValue(textBox.content);
-    setIsEditing(false);
+  // Curved text follows its arcs instead of the box, so it can't overflow it
+  const fitted = fitTextBoxContent(textBox, measure);
+  const overflows = fitted.overflows && !(textBox.type === 'freeText' && textBox.warp);
+  const padding = getTextBoxPadding(textBox);
+
+  // Typography of the overlay copy, so the caret lines up with the canvas text
+  const style = getTextBoxStyle(textBox);
+  const typography: React.CSSProperties = {
+    fontSize: fitted.fontSize,
+    fontFamily: textBox.fontFamily,
+    fontWeight: style.bold ? 'bold' : 'normal',
+    fontStyle: style.italic ? 'italic' : 'normal',
+    textAlign: style.align,
+    letterSpacing: style.letterSpacing,
+    lineHeight: `${fitted.lineHeight}px`,
+    textTransform: style.textTransform,
+    paddingLeft: padding,
+    paddingRight: padding
   };
 
   return (
     <div
-      className={`absolute cursor-move ${isSelected ? 'border-2 border-blue-500' : 'border border-transparent hover:border-blue-300'} rounded`}
+      ref={boxRef}
+      className={`absolute cursor-move touch-none ${
+        overflows
+          ? 'border-2 border-dashed border-destructive'
+          : isSelected ? 'border-2 border-blue-500' : 'border border-transparent hover:border-blue-300'
+      } rounded`}
       style={{
         left: textBox.x,
         top: textBox.y,
         width: textBox.width,
         height: textBox.height,
-        zIndex: 150 // Higher z-index to ensure draggability
+        transform: textBox.rotation ? `rotate(${textBox.rotation}deg)` : undefined,
+        zIndex
       }}
-      onMouseDown={handleMouseDown}
+      onPointerDown={handlePointerDown}
+      onClick={(e) => e.stopPropagation()}
       onDoubleClick={handleDoubleClick}
     >
       {isEditing ? (
+        // The canvas shows the text as it will print, so only the caret and
+        // selection are drawn here
         <textarea
-          value={editValue}
-          onChange={(e) => setEditValue(e.target.value)}
-          onBlur={handleEditSubmit}
+          value={textBox.content}
+          onChange={(e) => onTextBoxChange({ ...textBox, content: e.target.value })}
+          onBlur={() => finishEditing()}
           onKeyDown={(e) => {
             if (e.key === 'Enter' && !e.shiftKey) {
-              handleEditSubmit();
+              e.preventDefault();
+              finishEditing();
             } else if (e.key === 'Escape') {
-              handleEditCancel();
+              finishEditing(true);
             }
           }}
-          className="w-full h-full bg-transparent border-none outline-none resize-none"
+          className="w-full h-full bg-transparent border-none outline-none resize-none p-0 text-transparent"
           style={{
-            fontSize: textBox.fontSize,
-            fontFamily: textBox.fontFamily,
-            color: textBox.color
+            ...typography,
+            caretColor: textBox.color,
+            whiteSpace: 'pre-wrap',
+            overflowWrap: 'anywhere'
           }}
           autoFocus
         />
       ) : (
+        // The canvas draws the text itself, curved or not; this copy of the
+        // laid-out lines only keeps the hit area readable to assistive tech
         <div
-          className="w-full h-full"
-          style={{
-            fontSize: textBox.fontSize,
-            fontFamily: textBox.fontFamily,
-            color: textBox.color,
-            whiteSpace: 'pre-wrap',
-            wordWrap: 'break-word'
-          }}
+          className={`w-full h-full overflow-hidden ${textBox.content ? 'text-transparent' : 'text-muted-foreground'}`}
+          style={{ ...typography, whiteSpace: 'pre' }}
         >
-          {textBox.content || 'Double-click to edit'}
+          {textBox.content
+            ? fitted.lines.map((line, index) => <div key={index}>{line.text || ' '}</div>)
+            : 'Double-click to edit'}
+        </div>
+      )}
+      {overflows && (
+        <div className="absolute -bottom-5 right-0 flex items-center gap-1 text-[10px] text-destructive bg-background/90 px-1 rounded pointer-events-none whitespace-nowrap">
+          <AlertTriangle className="w-3 h-3" />
+          {textBox.overflow === 'clip' || textBox.overflow === 'ellipsis' ? 'Text cut off' : 'Text overflows'}
         </div>
       )}
+      {isSelected && !isEditing && RESIZE_HANDLES.map(({ direction, className }) => (
+        <div
+          key={`${direction.x},${direction.y}`}
+          className={`absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-sm touch-none ${className}`}
+          onPointerDown={(e) => handleResizeStart(e, direction)}
+          onClick={(e) => e.stopPropagation()}
+        />
+      ))}
+      {isSelected && !isEditing && (
+        <RotateHandle
+          rotation={textBox.rotation || 0}
+          getPivot={getCenter}
+          onRotate={(rotation) => onTextBoxChange({ ...textBox, rotation })}
+          onChangeStart={onChangeStart}
+          onChangeEnd={onChangeEnd}
+          className="left-1/2 -top-6 -ml-1.5"
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
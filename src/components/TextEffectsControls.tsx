@@ -0,0 +1,167 @@
+import React from 'react';
+import { TextEffects, TextPlate, TextShadow, TextStroke } from '@/types/label';
+
+interface TextEffectsControlsProps {
+  effects: TextEffects;
+  onEffectsChange: (effects: TextEffects) => void;
+}
+
+const DEFAULT_STROKE: TextStroke = { color: '#000000', width: 2 };
+const DEFAULT_SHADOW: TextShadow = { color: '#000000', opacity: 0.6, offsetX: 2, offsetY: 2, blur: 4 };
+const DEFAULT_PLATE: TextPlate = { color: '#000000', opacity: 0.5, padding: 6, radius: 6 };
+
+const RangeRow: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, onChange }) => (
+  <div className="flex items-center gap-2">
+    <label className="w-14">{label}</label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1"
+    />
+    <span className="text-muted-foreground w-8">{Math.round(value * 100) / 100}</span>
+  </div>
+);
+
+const EffectSection: React.FC<{
+  label: string;
+  enabled: boolean;
+  color?: string;
+  onToggle: (enabled: boolean) => void;
+  onColorChange: (color: string) => void;
+  children: React.ReactNode;
+}> = ({ label, enabled, color, onToggle, onColorChange, children }) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-2">
+      <label className="flex items-center gap-2 font-medium flex-1">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        {label}
+      </label>
+      {enabled && (
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => onColorChange(e.target.value)}
+          className="w-6 h-6 rounded border border-border cursor-pointer"
+          title={`${label} color`}
+        />
+      )}
+    </div>
+    {enabled && <div className="space-y-1 pl-5">{children}</div>}
+  </div>
+);
+
+// Outline, drop shadow and background plate, to keep text legible over photos
+export const TextEffectsControls: React.FC<TextEffectsControlsProps> = ({ effects, onEffectsChange }) => {
+  const { stroke, shadow, plate } = effects;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <EffectSection
+        label="Outline"
+        enabled={!!stroke}
+        color={stroke?.color}
+        onToggle={(enabled) => onEffectsChange({ ...effects, stroke: enabled ? DEFAULT_STROKE : undefined })}
+        onColorChange={(color) => onEffectsChange({ ...effects, stroke: { ...stroke, color } })}
+      >
+        {stroke && (
+          <RangeRow
+            label="Width"
+            value={stroke.width}
+            min={0.5}
+            max={10}
+            step={0.5}
+            onChange={(width) => onEffectsChange({ ...effects, stroke: { ...stroke, width } })}
+          />
+        )}
+      </EffectSection>
+
+      <EffectSection
+        label="Shadow"
+        enabled={!!shadow}
+        color={shadow?.color}
+        onToggle={(enabled) => onEffectsChange({ ...effects, shadow: enabled ? DEFAULT_SHADOW : undefined })}
+        onColorChange={(color) => onEffectsChange({ ...effects, shadow: { ...shadow, color } })}
+      >
+        {shadow && (
+          <>
+            <RangeRow
+              label="Offset X"
+              value={shadow.offsetX}
+              min={-20}
+              max={20}
+              onChange={(offsetX) => onEffectsChange({ ...effects, shadow: { ...shadow, offsetX } })}
+            />
+            <RangeRow
+              label="Offset Y"
+              value={shadow.offsetY}
+              min={-20}
+              max={20}
+              onChange={(offsetY) => onEffectsChange({ ...effects, shadow: { ...shadow, offsetY } })}
+            />
+            <RangeRow
+              label="Blur"
+              value={shadow.blur}
+              min={0}
+              max={30}
+              onChange={(blur) => onEffectsChange({ ...effects, shadow: { ...shadow, blur } })}
+            />
+            <RangeRow
+              label="Opacity"
+              value={shadow.opacity}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(opacity) => onEffectsChange({ ...effects, shadow: { ...shadow, opacity } })}
+            />
+          </>
+        )}
+      </EffectSection>
+
+      <EffectSection
+        label="Background"
+        enabled={!!plate}
+        color={plate?.color}
+        onToggle={(enabled) => onEffectsChange({ ...effects, plate: enabled ? DEFAULT_PLATE : undefined })}
+        onColorChange={(color) => onEffectsChange({ ...effects, plate: { ...plate, color } })}
+      >
+        {plate && (
+          <>
+            <RangeRow
+              label="Padding"
+              value={plate.padding}
+              min={0}
+              max={40}
+              onChange={(padding) => onEffectsChange({ ...effects, plate: { ...plate, padding } })}
+            />
+            <RangeRow
+              label="Corners"
+              value={plate.radius}
+              min={0}
+              max={40}
+              onChange={(radius) => onEffectsChange({ ...effects, plate: { ...plate, radius } })}
+            />
+            <RangeRow
+              label="Opacity"
+              value={plate.opacity}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(opacity) => onEffectsChange({ ...effects, plate: { ...plate, opacity } })}
+            />
+          </>
+        )}
+      </EffectSection>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { AlignCenter, AlignJustify, AlignLeft, AlignRight, Bold, CaseUpper, Italic } from 'lucide-react';
+import { TextStyle } from '@/types/label';
+
+interface TextStyleControlsProps {
+  // Resolved style, so every control shows a value
+  style: Required<TextStyle>;
+  onStyleChange: (style: TextStyle) => void;
+}
+
+const ALIGN_OPTIONS = [
+  { value: 'left', icon: AlignLeft, title: 'Align left' },
+  { value: 'center', icon: AlignCenter, title: 'Align center' },
+  { value: 'right', icon: AlignRight, title: 'Align right' },
+  { value: 'justify', icon: AlignJustify, title: 'Justify' }
+] as const;
+
+const ToggleButton: React.FC<{
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ active, title, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`h-7 w-7 flex items-center justify-center rounded border ${
+      active ? 'bg-primary text-primary-foreground border-primary' : 'border-border bg-background hover:bg-muted'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+// Weight, italics, alignment, case, letter spacing and line height
+export const TextStyleControls: React.FC<TextStyleControlsProps> = ({ style, onStyleChange }) => {
+  const update = (changes: TextStyle) => onStyleChange({ ...style, ...changes });
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-1">
+        <ToggleButton active={style.bold} title="Bold" onClick={() => update({ bold: !style.bold })}>
+          <Bold className="w-3.5 h-3.5" />
+        </ToggleButton>
+        <ToggleButton active={style.italic} title="Italic" onClick={() => update({ italic: !style.italic })}>
+          <Italic className="w-3.5 h-3.5" />
+        </ToggleButton>
+        <ToggleButton
+          active={style.textTransform === 'uppercase'}
+          title="Uppercase"
+          onClick={() => update({ textTransform: style.textTransform === 'uppercase' ? 'none' : 'uppercase' })}
+        >
+          <CaseUpper className="w-3.5 h-3.5" />
+        </ToggleButton>
+        <div className="w-px h-5 bg-border mx-1" />
+        {ALIGN_OPTIONS.map(({ value, icon: Icon, title }) => (
+          <ToggleButton key={value} active={style.align === value} title={title} onClick={() => update({ align: value })}>
+            <Icon className="w-3.5 h-3.5" />
+          </ToggleButton>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="font-medium w-14">Spacing</label>
+        <input
+          type="range"
+          min="-2"
+          max="20"
+          step="0.5"
+          value={style.letterSpacing}
+          onChange={(e) => update({ letterSpacing: parseFloat(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="text-muted-foreground w-10">{style.letterSpacing}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="font-medium w-14">Line height</label>
+        <input
+          type="range"
+          min="0.8"
+          max="3"
+          step="0.05"
+          value={style.lineHeight}
+          onChange={(e) => update({ lineHeight: parseFloat(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="text-muted-foreground w-10">{style.lineHeight.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { TextWarp } from '@/types/label';
+import { DEFAULT_TEXT_WARP_RADIUS, MAX_TEXT_WARP_RADIUS, MIN_TEXT_WARP_RADIUS } from '@/lib/labelLayout';
+import { normalizeRotation } from '@/lib/imageTransform';
+
+interface TextTransformControlsProps {
+  rotation: number;
+  onRotationChange: (rotation: number) => void;
+  // Leave out for text that can't be curved
+  warp?: TextWarp;
+  onWarpChange?: (warp: TextWarp | undefined) => void;
+}
+
+// Rotation, plus the arc warp for text that supports it
+export const TextTransformControls: React.FC<TextTransformControlsProps> = ({
+  rotation,
+  onRotationChange,
+  warp,
+  onWarpChange
+}) => (
+  <div className="space-y-2 text-xs">
+    <div className="flex items-center gap-2">
+      <label className="font-medium w-14">Rotation</label>
+      <input
+        type="number"
+        min="-180"
+        max="180"
+        value={Math.round(rotation)}
+        onChange={(e) => onRotationChange(normalizeRotation(parseInt(e.target.value) || 0))}
+        className="w-16 px-2 py-1 border border-border rounded bg-background"
+      />
+      <span className="text-muted-foreground">degrees</span>
+    </div>
+    {onWarpChange && (
+      <>
+        <div className="flex items-center gap-2">
+          <label className="font-medium w-14">Curve</label>
+          <select
+            value={warp?.direction || 'none'}
+            onChange={(e) => onWarpChange(
+              e.target.value === 'none'
+                ? undefined
+                : { radius: warp?.radius || DEFAULT_TEXT_WARP_RADIUS, direction: e.target.value as TextWarp['direction'] }
+            )}
+            className="flex-1 px-2 py-1 border border-border rounded bg-background"
+          >
+            <option value="none">Straight</option>
+            <option value="up">Arch up</option>
+            <option value="down">Arch down</option>
+          </select>
+        </div>
+        {warp && (
+          <div className="flex items-center gap-2">
+            <label className="font-medium w-14">Radius</label>
+            <input
+              type="range"
+              min={MIN_TEXT_WARP_RADIUS}
+              max={MAX_TEXT_WARP_RADIUS}
+              value={warp.radius}
+              onChange={(e) => onWarpChange({ ...warp, radius: parseInt(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="text-muted-foreground w-10">{Math.round(warp.radius)}</span>
+          </div>
+        )}
+      </>
+    )}
+  </div>
+);
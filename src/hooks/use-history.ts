@@ -0,0 +1,136 @@
+import * as React from "react"
+
+const DEFAULT_HISTORY_LIMIT = 100
+
+type SetStateAction<T> = T | ((prev: T) => T)
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+  // Batch that recorded the latest step, so later changes in it merge
+  batch: number | null
+}
+
+type HistoryAction<T> =
+  | { type: "set"; value: SetStateAction<T>; batch: number | null; limit: number }
+  | { type: "reset"; value: SetStateAction<T>; keepHistory: boolean }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "cancelBatch"; batch: number | null }
+
+const resolve = <T,>(value: SetStateAction<T>, prev: T) =>
+  typeof value === "function" ? (value as (prev: T) => T)(prev) : value
+
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "set": {
+      const present = resolve(action.value, state.present)
+      if (present === state.present) return state
+      // Later changes in a batch replace the present so a whole gesture is one step
+      if (action.batch !== null && action.batch === state.batch) return { ...state, present }
+      return {
+        past: [...state.past, state.present].slice(-action.limit),
+        present,
+        future: [],
+        batch: action.batch
+      }
+    }
+    case "reset": {
+      const present = resolve(action.value, state.present)
+      if (action.keepHistory) return { ...state, present }
+      return { past: [], present, future: [], batch: null }
+    }
+    case "undo": {
+      if (!state.past.length) return state
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        batch: null
+      }
+    }
+    case "cancelBatch": {
+      // Drops the step the batch recorded, as if it never happened
+      if (action.batch === null || action.batch !== state.batch) return state
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [],
+        batch: null
+      }
+    }
+    case "redo": {
+      if (!state.future.length) return state
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        batch: null
+      }
+    }
+  }
+}
+
+// What the editor needs to offer undo/redo and group continuous edits
+export interface HistoryControls {
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  // Everything set between beginBatch and endBatch (e.g. one drag) undoes as
+  // a single step
+  beginBatch: () => void
+  endBatch: () => void
+  // Ends the batch and throws away what it changed, without a redo step
+  cancelBatch: () => void
+}
+
+// useState with an undo/redo stack. `reset` replaces the state without
+// recording a step, for loading data rather than editing it; pass keepHistory
+// for bookkeeping changes the user shouldn't see as an edit.
+export function useHistory<T>(initialState: T | (() => T), limit = DEFAULT_HISTORY_LIMIT) {
+  const [state, dispatch] = React.useReducer(
+    historyReducer as React.Reducer<HistoryState<T>, HistoryAction<T>>,
+    undefined,
+    () => ({
+      past: [],
+      present: typeof initialState === "function" ? (initialState as () => T)() : initialState,
+      future: [],
+      batch: null
+    })
+  )
+
+  const batchRef = React.useRef<number | null>(null)
+  const batchCountRef = React.useRef(0)
+
+  const set = React.useCallback((value: SetStateAction<T>) => {
+    dispatch({ type: "set", value, batch: batchRef.current, limit })
+  }, [limit])
+
+  const reset = React.useCallback(
+    (value: SetStateAction<T>, { keepHistory = false } = {}) => dispatch({ type: "reset", value, keepHistory }),
+    []
+  )
+  const undo = React.useCallback(() => dispatch({ type: "undo" }), [])
+  const redo = React.useCallback(() => dispatch({ type: "redo" }), [])
+  const beginBatch = React.useCallback(() => {
+    batchRef.current = ++batchCountRef.current
+  }, [])
+  const endBatch = React.useCallback(() => {
+    batchRef.current = null
+  }, [])
+  const cancelBatch = React.useCallback(() => {
+    dispatch({ type: "cancelBatch", batch: batchRef.current })
+    batchRef.current = null
+  }, [])
+
+  const canUndo = state.past.length > 0
+  const canRedo = state.future.length > 0
+  const controls = React.useMemo<HistoryControls>(
+    () => ({ undo, redo, canUndo, canRedo, beginBatch, endBatch, cancelBatch }),
+    [undo, redo, canUndo, canRedo, beginBatch, endBatch, cancelBatch]
+  )
+
+  return [state.present, set, controls, reset] as const
+}
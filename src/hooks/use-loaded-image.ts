@@ -0,0 +1,61 @@
+import * as React from "react"
+import { loadImage } from "@/lib/labelExport"
+
+// Loads an image once per URL and returns it when ready, so renders can draw
+// synchronously instead of creating a new Image on every paint.
+export function useLoadedImage(url?: string | null) {
+  const [loaded, setLoaded] = React.useState<{ url: string; image: HTMLImageElement } | null>(null)
+
+  React.useEffect(() => {
+    if (!url) return
+
+    let cancelled = false
+    loadImage(url)
+      .then((image) => {
+        if (!cancelled) setLoaded({ url, image })
+      })
+      .catch((error) => {
+        console.error("Failed to load image:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  // Never hand back a stale image while a new URL is loading
+  return loaded && loaded.url === url ? loaded.image : null
+}
+
+// Same for a set of images, keyed by URL. Images that are still loading are
+// missing from the result.
+export function useLoadedImages(urls: string[]) {
+  const [loaded, setLoaded] = React.useState<Record<string, HTMLImageElement>>({})
+  const requestedRef = React.useRef(new Set<string>())
+  const urlsKey = [...new Set(urls)].sort().join("\n")
+
+  React.useEffect(() => {
+    if (!urlsKey) return
+
+    // Each URL is only loaded once for the lifetime of the component
+    urlsKey.split("\n").forEach((url) => {
+      if (requestedRef.current.has(url)) return
+      requestedRef.current.add(url)
+
+      loadImage(url)
+        .then((image) => setLoaded((prev) => ({ ...prev, [url]: image })))
+        .catch((error) => {
+          requestedRef.current.delete(url)
+          console.error("Failed to load image:", error)
+        })
+    })
+  }, [urlsKey])
+
+  return React.useMemo(() => {
+    const current: Record<string, HTMLImageElement> = {}
+    urlsKey.split("\n").forEach((url) => {
+      if (loaded[url]) current[url] = loaded[url]
+    })
+    return current
+  }, [loaded, urlsKey])
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { LabelData } from "@/types/label"
+import { SavedLabel, adoptSavedImages } from "@/lib/labelStorage"
+
+type ResetLabel = (
+  value: LabelData | ((prev: LabelData) => LabelData),
+  options?: { keepHistory?: boolean }
+) => void
+
+// Which saved design is open, for the full-page and embedded designers.
+// `reset` is the label's history reset, since opening a design isn't an edit.
+export function useSavedDesign(reset: ResetLabel) {
+  const [designId, setDesignId] = React.useState<string | null>(null)
+
+  const openDesign = React.useCallback((design: SavedLabel) => {
+    setDesignId(design.id)
+    reset(design.data)
+  }, [reset])
+
+  // Saving uploads data URL images; point the open design at the uploaded
+  // copies as bookkeeping, not as an undoable edit
+  const handleDesignSaved = React.useCallback((design: SavedLabel, savedFrom: LabelData) => {
+    setDesignId(design.id)
+    reset(prev => adoptSavedImages(prev, design, savedFrom), { keepHistory: true })
+  }, [reset])
+
+  return { designId, setDesignId, openDesign, handleDesignSaved }
+}
@@ -0,0 +1,26 @@
+import * as React from "react"
+
+// Width of an element and height of the window, kept current as either
+// changes. Browser zoom also fires a resize, so anything drawn at
+// devicePixelRatio re-renders with it.
+export function useViewportSize(ref: React.RefObject<HTMLElement>) {
+  const [size, setSize] = React.useState({ width: 0, height: 0 })
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const update = () => setSize({ width: element.clientWidth, height: window.innerHeight })
+    const observer = new ResizeObserver(update)
+    observer.observe(element)
+    window.addEventListener("resize", update)
+    update()
+
+    return () => {
+      observer.disconnect()
+      window.removeEventListener("resize", update)
+    }
+  }, [ref])
+
+  return size
+}
@@ -0,0 +1,49 @@
+import { DesignSize } from './labelLayout';
+
+// Zoom and pan for the on-screen editor. The label is laid out in design
+// units and scaled as a whole, so every element keeps its design-unit
+// position; only pointer input needs converting with clientToLabel.
+
+export type CanvasZoom = number | 'fit';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 4;
+// Steps for the zoom buttons and Ctrl+scroll
+export const ZOOM_STEP = 1.25;
+// Share of the window height a fitted label may take up
+export const FIT_VIEWPORT_HEIGHT = 0.8;
+// Beyond this the backing canvas gets too big for phones to keep in memory
+const MAX_CANVAS_PIXEL_RATIO = 4;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// Largest scale at which the whole content fits the available space
+export const getFitScale = (content: DesignSize, available: DesignSize) =>
+  clampZoom(Math.min(available.width / content.width, available.height / content.height));
+
+export const stepZoom = (scale: number, direction: 1 | -1) =>
+  clampZoom(direction > 0 ? scale * ZOOM_STEP : scale / ZOOM_STEP);
+
+// A client (screen) point in label design units, given where the label is
+// on screen and how much it's scaled
+export const clientToLabel = (clientX: number, clientY: number, labelRect: DOMRect, scale: number) => ({
+  x: (clientX - labelRect.left) / scale,
+  y: (clientY - labelRect.top) / scale
+});
+
+// Scroll offsets that keep the content point under (pointerX, pointerY),
+// relative to the viewport, still when the scale changes
+export const getZoomScroll = (
+  scroll: { left: number; top: number },
+  pointer: { x: number; y: number },
+  fromScale: number,
+  toScale: number
+) => ({
+  left: ((scroll.left + pointer.x) / fromScale) * toScale - pointer.x,
+  top: ((scroll.top + pointer.y) / fromScale) * toScale - pointer.y
+});
+
+// Device pixels per design unit for the on-screen canvas, so text stays sharp
+// on high-density screens and when zoomed in
+export const getCanvasPixelRatio = (scale: number) =>
+  Math.min(MAX_CANVAS_PIXEL_RATIO, scale * (window.devicePixelRatio || 1));
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { LabelData, ProductInfo } from '@/types/label';
+import { LabelDocument } from './labelSchema';
+import { DEFAULT_PRINT_DPI, PRINT_DPI_OPTIONS, canvasToBlob, createPrintCanvas } from './labelExport';
+import { loadRenderImages, renderLabel } from './labelRenderer';
+import { getLabelStock, getStockDesignSize, inchesToDesignUnits } from './labelStock';
+import { DEFAULT_PDF_OPTIONS, exportLabelPdf } from './pdfExport';
+import { DESIGNER_MESSAGE_SOURCE } from './shopifyHandoff';
+import { exportLabelSvg } from './svgExport';
+
+// postMessage protocol between the embedded designer (/embed) and the page
+// hosting it in an iframe. The host sends requests; the designer answers with
+// events, each tagged with DESIGNER_MESSAGE_SOURCE like the store handoff, so
+// the host can tell them apart from other messages. Requests are only accepted
+// from the allowed store origins, and events are only posted back to the
+// origin that last sent one.
+//
+//   iframe.contentWindow.postMessage({ type: 'getDesign', requestId: '1' }, designerOrigin);
+//   window.addEventListener('message', e => {
+//     if (e.data?.source === 'labelDesigner' && e.data.type === 'design') ...
+//   });
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedExportFormat = 'png' | 'pdf' | 'svg';
+
+// Host to designer. requestId is echoed on the answer, or on an error.
+export type EmbedRequest =
+  | { type: 'setProductInfo'; requestId?: string; productInfo: ProductInfo }
+  // Either a saved design's ID or a LabelDocument, as from getDesign
+  | { type: 'loadDesign'; requestId?: string; designId?: string; document?: unknown }
+  | { type: 'getDesign'; requestId?: string }
+  | { type: 'requestExport'; requestId?: string; format: EmbedExportFormat; dpi?: number };
+
+// Designer to host
+export type EmbedEvent =
+  | { type: 'ready'; version: number }
+  // Sent after every change, a moment after editing pauses
+  | { type: 'designChanged'; designId: string | null; document: LabelDocument }
+  | { type: 'design'; requestId?: string; designId: string | null; document: LabelDocument }
+  | { type: 'exportReady'; requestId?: string; format: EmbedExportFormat; mimeType: string; file: Blob }
+  | { type: 'error'; requestId?: string; message: string };
+
+export type EmbedMessage = EmbedEvent & { source: typeof DESIGNER_MESSAGE_SOURCE };
+
+const productInfoSchema = z.object({
+  name: z.string().min(1),
+  weight: z.string().min(1),
+  type: z.enum(['regular', 'decaf']).default('regular'),
+  grind: z.enum(['whole-bean', 'ground']).default('whole-bean'),
+  price: z.string().optional(),
+  description: z.string().optional()
+});
+
+const requestId = z.string().optional();
+
+const embedRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('setProductInfo'), requestId, productInfo: productInfoSchema }),
+  z.object({ type: z.literal('loadDesign'), requestId, designId: z.string().optional(), document: z.unknown() }),
+  z.object({ type: z.literal('getDesign'), requestId }),
+  z.object({
+    type: z.literal('requestExport'),
+    requestId,
+    format: z.enum(['png', 'pdf', 'svg']),
+    dpi: z.number().refine(dpi => PRINT_DPI_OPTIONS.includes(dpi), 'Unsupported DPI').optional()
+  })
+]).refine(
+  request => request.type !== 'loadDesign' || !!(request.designId || request.document),
+  'Needs a designId or a document'
+);
+
+const REQUEST_TYPES: string[] = ['setProductInfo', 'loadDesign', 'getDesign', 'requestExport'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The request ID of a message, if it has one, for reporting errors even when
+// the rest of it is unusable
+export const getRequestId = (data: unknown) =>
+  isObject(data) && typeof data.requestId === 'string' ? data.requestId : undefined;
+
+// Returns null for messages that aren't requests at all, since the host page
+// may post other things to the frame. Throws with a readable message for a
+// request the designer can't use.
+export const parseEmbedRequest = (data: unknown): EmbedRequest | null => {
+  if (!isObject(data) || typeof data.type !== 'string' || !REQUEST_TYPES.includes(data.type)) return null;
+
+  const result = embedRequestSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid ${data.type} request: ${issue.path.join('.') || 'message'} - ${issue.message}`);
+  }
+  // zod marks every field optional without strictNullChecks
+  return result.data as EmbedRequest;
+};
+
+export const postEmbedEvent = (target: Window, origin: string, event: EmbedEvent) => {
+  const message: EmbedMessage = { ...event, source: DESIGNER_MESSAGE_SOURCE };
+  target.postMessage(message, origin);
+};
+
+// Renders the print file the host asked for
+export const createExportFile = async (
+  labelData: LabelData,
+  productInfo: ProductInfo | null,
+  format: EmbedExportFormat,
+  dpi = DEFAULT_PRINT_DPI
+): Promise<{ file: Blob; mimeType: string }> => {
+  await document.fonts.ready;
+  const stock = getLabelStock(labelData.stockId);
+
+  switch (format) {
+    case 'pdf': {
+      const pdfBytes = await exportLabelPdf(labelData, productInfo, { ...DEFAULT_PDF_OPTIONS, stock });
+      return { file: new Blob([pdfBytes], { type: 'application/pdf' }), mimeType: 'application/pdf' };
+    }
+    case 'svg': {
+      const svg = exportLabelSvg(labelData, productInfo, { stock });
+      return { file: new Blob([svg], { type: 'image/svg+xml' }), mimeType: 'image/svg+xml' };
+    }
+    case 'png': {
+      const designSize = getStockDesignSize(stock);
+      const images = await loadRenderImages(labelData);
+      const { canvas, ctx } = createPrintCanvas(stock, dpi, designSize.width, designSize.height);
+      renderLabel(labelData, productInfo, {
+        size: designSize,
+        images,
+        cornerRadius: inchesToDesignUnits(stock.cornerRadiusInches)
+      }, ctx);
+      return { file: await canvasToBlob(canvas), mimeType: 'image/png' };
+    }
+  }
+};
@@ -0,0 +1,54 @@
+// Maps the CSS font families used in the designer to the font files shipped
+// in public/fonts, so exporters can embed the exact outlines.
+
+const FONT_FILES: Record<string, string> = {
+  AgencyFB: 'AGENCYB.TTF',
+  Alger: 'ALGER.TTF',
+  Algerian: 'ALGER.TTF',
+  Antique: 'ANTQUAI.TTF',
+  Arial: 'arial.ttf',
+  ArialCustom: 'arial.ttf',
+  Bahnschrift: 'bahnschrift.ttf',
+  Bell: 'BELL.TTF',
+  BellMT: 'BELL.TTF',
+  Dubai: 'DUBAI-REGULAR.TTF',
+  DubaiRegular: 'DUBAI-REGULAR.TTF',
+  FertigoPro: 'Fertigo Pro Regular.otf',
+  FreeScript: 'FREESCPT.TTF',
+  FreestyleScript: 'FREESCPT.TTF',
+  FuturaBlack: 'Futura Black.ttf',
+  IntensaBlack: 'Intensa-Black-Condensed.otf',
+  InterstateBlack: 'InterstateBlack.ttf',
+  InterstateMono: 'Interstate Cond Mono.ttf',
+  InterstateCondMono: 'Interstate Cond Mono.ttf',
+  Jokerman: 'JOKERMAN.TTF',
+  LithosPro: 'Lithos Pro Bold.otf',
+  Mistral: 'MISTRAL.TTF',
+  // Cambria ships as a .ttc collection, which can't be embedded as a single
+  // font - exporters fall back to the generic family for it.
+};
+
+export type GenericFontFamily = 'serif' | 'sans-serif' | 'monospace';
+
+const stripQuotes = (name: string) => name.trim().replace(/^['"]|['"]$/g, '');
+
+// "FertigoPro, serif" -> "FertigoPro"
+export const getPrimaryFontFamily = (cssFamily: string) => stripQuotes(cssFamily.split(',')[0]);
+
+export const getFontFileUrl = (cssFamily: string): string | null => {
+  const file = FONT_FILES[getPrimaryFontFamily(cssFamily)];
+  return file ? `/fonts/${encodeURIComponent(file)}` : null;
+};
+
+// Picks the closest generic family for fonts we have no file for
+export const getGenericFontFamily = (cssFamily: string): GenericFontFamily => {
+  const names = cssFamily.split(',').map(stripQuotes).map(name => name.toLowerCase());
+
+  if (names.some(name => name === 'monospace' || name.includes('mono') || name.includes('courier'))) {
+    return 'monospace';
+  }
+  if (names.some(name => ['sans-serif', 'arial', 'helvetica', 'verdana'].includes(name))) {
+    return 'sans-serif';
+  }
+  return 'serif';
+};
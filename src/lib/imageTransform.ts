@@ -0,0 +1,106 @@
+import { ImageElement } from '@/types/label';
+import { DesignSize } from './labelLayout';
+
+// Rotation and flip math shared by the renderers, the exporters and the
+// on-canvas handles, so what is drawn always lines up with what is dragged.
+// Angles are degrees clockwise, as on screen.
+
+export const ROTATION_SNAP_DEGREES = 15;
+
+// Smallest crop, in source pixels, a background can be zoomed in to
+const MIN_BACKGROUND_CROP = 10;
+
+// Keeps angles in (-180, 180], optionally snapped to ROTATION_SNAP_DEGREES
+export const normalizeRotation = (degrees: number, snap = false) => {
+  const value = snap ? Math.round(degrees / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES : degrees;
+  const wrapped = ((value % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Angle of a point around a pivot, for rotate handles
+export const getPointerAngle = (pivot: { x: number; y: number }, x: number, y: number) =>
+  (Math.atan2(y - pivot.y, x - pivot.x) * 180) / Math.PI;
+
+// Rotates a screen-space vector by -degrees, into a rotated element's own axes
+export const unrotate = (dx: number, dy: number, degrees: number) => {
+  const angle = toRadians(degrees);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: dx * cos + dy * sin, y: -dx * sin + dy * cos };
+};
+
+// Rotates a vector by +degrees, out of an element's axes onto the screen
+export const rotate = (dx: number, dy: number, degrees: number) => unrotate(dx, dy, -degrees);
+
+// Which edges a resize handle drags: -1 the left/top, 1 the right/bottom, 0 neither
+export interface ResizeDirection {
+  x: -1 | 0 | 1;
+  y: -1 | 0 | 1;
+}
+
+// Resizes a box that is rotated around its center by dragging an edge or
+// corner (dx, dy) on screen, keeping the opposite edge or corner in place
+export const resizeRotatedBox = <T extends { x: number; y: number; width: number; height: number }>(
+  box: T,
+  rotation: number,
+  direction: ResizeDirection,
+  dx: number,
+  dy: number,
+  minSize: { width: number; height: number }
+): T => {
+  const local = unrotate(dx, dy, rotation);
+  const width = Math.max(minSize.width, box.width + local.x * direction.x);
+  const height = Math.max(minSize.height, box.height + local.y * direction.y);
+  const anchor = rotate((-direction.x * box.width) / 2, (-direction.y * box.height) / 2, rotation);
+  const toCenter = rotate((direction.x * width) / 2, (direction.y * height) / 2, rotation);
+  const centerX = box.x + box.width / 2 + anchor.x + toCenter.x;
+  const centerY = box.y + box.height / 2 + anchor.y + toCenter.y;
+  return { ...box, x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+export const getFlipScale = (image: { flipX?: boolean; flipY?: boolean }) => ({
+  x: image.flipX ? -1 : 1,
+  y: image.flipY ? -1 : 1
+});
+
+// CSS transform matching the canvas calls translate > rotate > scale(flip)
+export const toCssTransform = (rotation: number, flip: { x: number; y: number }) =>
+  `rotate(${rotation}deg) scale(${flip.x}, ${flip.y})`;
+
+// The background photo is flipped and rotated around the crop center, which
+// sits at the label center, and scaled so the crop fills the label. Returns
+// that placement in design units.
+export const getBackgroundPlacement = (image: ImageElement, size: DesignSize) => ({
+  scaleX: size.width / image.width,
+  scaleY: size.height / image.height,
+  cropCenterX: image.x + image.width / 2,
+  cropCenterY: image.y + image.height / 2,
+  flip: getFlipScale(image)
+});
+
+// Moves the photo by (dx, dy) design units on the label
+export const panBackground = (image: ImageElement, size: DesignSize, dx: number, dy: number): ImageElement => {
+  const { scaleX, scaleY, flip } = getBackgroundPlacement(image, size);
+  const local = unrotate(dx, dy, image.rotation);
+  return {
+    ...image,
+    x: image.x - (local.x * flip.x) / scaleX,
+    y: image.y - (local.y * flip.y) / scaleY
+  };
+};
+
+// Scales the photo around the label center; factor > 1 enlarges it
+export const zoomBackground = (image: ImageElement, factor: number): ImageElement => {
+  const scale = Math.min(factor, Math.min(image.width, image.height) / MIN_BACKGROUND_CROP);
+  const width = image.width / scale;
+  const height = image.height / scale;
+  return {
+    ...image,
+    x: image.x + (image.width - width) / 2,
+    y: image.y + (image.height - height) / 2,
+    width,
+    height
+  };
+};
@@ -0,0 +1,198 @@
+import { LabelData, LabelElement, ProductInfo } from '@/types/label';
+import { Bounds, DesignSize, MeasureText, getCoffeeNamePosition, measureCoffeeName } from './labelLayout';
+import { createDefaultFooter } from './productFooter';
+import { rotate } from './imageTransform';
+import { expandToGroups } from './labelElements';
+
+// Selection geometry: where elements sit on the label, and moving them to
+// line up. Everything works on axis-aligned bounds in design units, so rotated
+// elements align by their visible extent.
+
+// What element bounds depend on besides the element itself
+export interface BoundsContext {
+  productInfo?: ProductInfo | null;
+  size: DesignSize;
+  measure: MeasureText;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type AlignTarget = 'selection' | 'label';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Bounds of a box after turning it around a pivot
+export const getRotatedBounds = (box: Bounds, pivot: { x: number; y: number }, degrees: number): Bounds => {
+  if (!degrees) return box;
+
+  const corners = [
+    [box.x, box.y],
+    [box.x + box.width, box.y],
+    [box.x, box.y + box.height],
+    [box.x + box.width, box.y + box.height]
+  ].map(([x, y]) => {
+    const turned = rotate(x - pivot.x, y - pivot.y, degrees);
+    return { x: pivot.x + turned.x, y: pivot.y + turned.y };
+  });
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const getUnionBounds = (boxes: Bounds[]): Bounds | null => {
+  if (!boxes.length) return null;
+  const x = Math.min(...boxes.map(box => box.x));
+  const y = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+export const getElementBounds = (labelData: LabelData, element: LabelElement, context: BoundsContext): Bounds => {
+  switch (element.kind) {
+    case 'coffeeName':
+      return getRotatedBounds(
+        measureCoffeeName(labelData, context.productInfo, context.size, context.measure),
+        getCoffeeNamePosition(labelData, context.size),
+        labelData.coffeeNameRotation || 0
+      );
+    case 'footer': {
+      const footer = labelData.footer || createDefaultFooter(context.size);
+      return { x: footer.x, y: footer.y, width: footer.width, height: footer.height };
+    }
+    case 'text':
+    case 'image':
+      return getRotatedBounds(
+        { x: element.x, y: element.y, width: element.width, height: element.height },
+        { x: element.x + element.width / 2, y: element.y + element.height / 2 },
+        element.rotation || 0
+      );
+  }
+};
+
+const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// Elements a marquee touches, with their groups. Hidden and locked elements
+// can't be picked on the canvas, so they're skipped here too.
+export const getElementsInRect = (labelData: LabelData, rect: Bounds, context: BoundsContext): string[] =>
+  expandToGroups(
+    labelData.elements,
+    labelData.elements
+      .filter(element => !element.hidden && !element.locked)
+      .filter(element => boundsIntersect(getElementBounds(labelData, element, context), rect))
+      .map(element => element.id)
+  );
+
+// Moves elements by (dx, dy) design units, whatever kind they are
+export const translateElements = (
+  labelData: LabelData,
+  ids: string[],
+  dx: number,
+  dy: number,
+  size: DesignSize
+): LabelData => {
+  if (!ids.length || (!dx && !dy)) return labelData;
+
+  const next: LabelData = {
+    ...labelData,
+    elements: labelData.elements.map(element =>
+      ids.includes(element.id) && (element.kind === 'text' || element.kind === 'image')
+        ? { ...element, x: element.x + dx, y: element.y + dy }
+        : element
+    )
+  };
+  if (labelData.elements.some(element => element.kind === 'coffeeName' && ids.includes(element.id))) {
+    const position = getCoffeeNamePosition(labelData, size);
+    next.coffeeNamePosition = { x: position.x + dx, y: position.y + dy };
+  }
+  if (labelData.elements.some(element => element.kind === 'footer' && ids.includes(element.id))) {
+    const footer = labelData.footer || createDefaultFooter(size);
+    next.footer = { ...footer, x: footer.x + dx, y: footer.y + dy };
+  }
+  return next;
+};
+
+// Grouped elements move as one unit with their combined bounds
+const getUnits = (labelData: LabelData, ids: string[], context: BoundsContext) => {
+  const units = new Map<string, { ids: string[]; bounds: Bounds[] }>();
+  labelData.elements
+    .filter(element => ids.includes(element.id))
+    .forEach(element => {
+      const key = element.groupId || element.id;
+      const unit = units.get(key) || { ids: [], bounds: [] };
+      unit.ids.push(element.id);
+      unit.bounds.push(getElementBounds(labelData, element, context));
+      units.set(key, unit);
+    });
+  return [...units.values()].map(unit => ({ ids: unit.ids, bounds: getUnionBounds(unit.bounds)! }));
+};
+
+// Number of independently moving units, for enabling align and distribute
+export const countUnits = (labelData: LabelData, ids: string[]) =>
+  new Set(labelData.elements.filter(element => ids.includes(element.id)).map(element => element.groupId || element.id)).size;
+
+// Lines elements up on one edge or center line. A single unit has nothing
+// to line up with, so it aligns to the label instead.
+export const alignElements = (
+  labelData: LabelData,
+  ids: string[],
+  edge: AlignEdge,
+  target: AlignTarget,
+  context: BoundsContext
+): LabelData => {
+  const units = getUnits(labelData, ids, context);
+  const reference = target === 'label' || units.length < 2
+    ? { x: 0, y: 0, width: context.size.width, height: context.size.height }
+    : getUnionBounds(units.map(unit => unit.bounds))!;
+
+  return units.reduce((next, { ids: unitIds, bounds }) => {
+    switch (edge) {
+      case 'left':
+        return translateElements(next, unitIds, reference.x - bounds.x, 0, context.size);
+      case 'center':
+        return translateElements(
+          next, unitIds, reference.x + reference.width / 2 - (bounds.x + bounds.width / 2), 0, context.size
+        );
+      case 'right':
+        return translateElements(next, unitIds, reference.x + reference.width - (bounds.x + bounds.width), 0, context.size);
+      case 'top':
+        return translateElements(next, unitIds, 0, reference.y - bounds.y, context.size);
+      case 'middle':
+        return translateElements(
+          next, unitIds, 0, reference.y + reference.height / 2 - (bounds.y + bounds.height / 2), context.size
+        );
+      case 'bottom':
+        return translateElements(next, unitIds, 0, reference.y + reference.height - (bounds.y + bounds.height), context.size);
+    }
+  }, labelData);
+};
+
+// Spaces units evenly between the outermost two, with equal gaps between
+// their edges. Needs at least three units to change anything.
+export const distributeElements = (
+  labelData: LabelData,
+  ids: string[],
+  axis: DistributeAxis,
+  context: BoundsContext
+): LabelData => {
+  const units = getUnits(labelData, ids, context);
+  if (units.length < 3) return labelData;
+
+  const start = (bounds: Bounds) => (axis === 'horizontal' ? bounds.x : bounds.y);
+  const length = (bounds: Bounds) => (axis === 'horizontal' ? bounds.width : bounds.height);
+  const sorted = [...units].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const occupied = sorted.reduce((sum, unit) => sum + length(unit.bounds), 0);
+  const gap = (start(last) + length(last) - start(first) - occupied) / (sorted.length - 1);
+
+  let position = start(first);
+  return sorted.reduce((next, unit) => {
+    const delta = position - start(unit.bounds);
+    position += length(unit.bounds) + gap;
+    return axis === 'horizontal'
+      ? translateElements(next, unit.ids, delta, 0, context.size)
+      : translateElements(next, unit.ids, 0, delta, context.size);
+  }, labelData);
+};
@@ -0,0 +1,35 @@
+import { CopyableElement } from './labelElements';
+import { parseClipboardElements } from './labelSchema';
+
+// Copied elements live in localStorage rather than the system clipboard, so
+// they paste into any label open in the designer, in this tab or another,
+// without asking for clipboard permission. Copies too big for the storage
+// quota, such as images holding a data URL photo, stay in this tab only.
+
+const CLIPBOARD_STORAGE_KEY = 'labelDesigner.clipboard';
+
+let tabClipboard: CopyableElement[] = [];
+
+// Returns false when the copy only fits in this tab
+export const copyElements = (elements: CopyableElement[]): boolean => {
+  tabClipboard = elements;
+  try {
+    localStorage.setItem(CLIPBOARD_STORAGE_KEY, JSON.stringify(elements));
+    return true;
+  } catch (error) {
+    console.error('Failed to share copied elements with other tabs:', error);
+    // An older copy left in storage would otherwise win over this one
+    localStorage.removeItem(CLIPBOARD_STORAGE_KEY);
+    return false;
+  }
+};
+
+export const readClipboard = (): CopyableElement[] => {
+  try {
+    const stored = localStorage.getItem(CLIPBOARD_STORAGE_KEY);
+    return stored ? parseClipboardElements(JSON.parse(stored)) : tabClipboard;
+  } catch (error) {
+    console.error('Failed to read copied elements:', error);
+    return tabClipboard;
+  }
+};
@@ -0,0 +1,44 @@
+import { LabelData, ProductInfo } from '@/types/label';
+import {
+  DEFAULT_LABEL_STOCK_ID,
+  changeLabelStock,
+  getLabelStock,
+  getStockDesignSize,
+  getStockForWeight
+} from './labelStock';
+import { createBrandFooter } from './productFooter';
+import { DEFAULT_ROAST_INFO } from './roastInfo';
+import { createDefaultElements } from './labelElements';
+
+// Starting points for a label, shared by the full-page and embedded designers
+
+export const createDefaultLabel = (): LabelData => ({
+  stockId: DEFAULT_LABEL_STOCK_ID,
+  coffeeName: '',
+  coffeeNameFont: 'serif',
+  coffeeNameColor: '#ffffff',
+  elements: createDefaultElements(),
+  footer: createBrandFooter(getStockDesignSize(getLabelStock(DEFAULT_LABEL_STOCK_ID))),
+  roast: DEFAULT_ROAST_INFO
+});
+
+// Sets a fresh label up for a product: the stock that matches the bag size,
+// with a brand footer for it, and the product name unless one is already set
+export const applyProductInfo = (labelData: LabelData, product: ProductInfo): LabelData => {
+  const stock = getStockForWeight(product.weight);
+  return {
+    ...labelData,
+    stockId: stock.id,
+    footer: createBrandFooter(getStockDesignSize(stock)),
+    coffeeName: labelData.coffeeName || product.name
+  };
+};
+
+// The same for a design that's already open. The stock changes the way the
+// stock picker changes it, rescaling everything, and the design keeps its own
+// footer.
+export const applyProductToDesign = (labelData: LabelData, product: ProductInfo): LabelData => {
+  const stockId = getStockForWeight(product.weight).id;
+  const resized = stockId === labelData.stockId ? labelData : changeLabelStock(labelData, stockId);
+  return resized.coffeeName ? resized : { ...resized, coffeeName: product.name };
+};
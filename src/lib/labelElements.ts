@@ -0,0 +1,145 @@
+import { ImageBox, LabelData, LabelElement, TextBox } from '@/types/label';
+import { DesignSize } from './labelLayout';
+
+// Helpers for the ordered element stack in LabelData.elements (bottom to top)
+
+export const COFFEE_NAME_LAYER_ID = 'coffee-name';
+export const FOOTER_LAYER_ID = 'footer';
+
+// The coffee name starts at the bottom of the stack and the footer on top
+export const createDefaultElements = (): LabelElement[] => [
+  { kind: 'coffeeName', id: COFFEE_NAME_LAYER_ID },
+  { kind: 'footer', id: FOOTER_LAYER_ID }
+];
+
+// The coffee name and footer can be restacked but never removed
+export const isRemovable = (element: LabelElement) =>
+  element.kind === 'text' || element.kind === 'image';
+
+export const getLayerName = (element: LabelElement) => {
+  if (element.name) return element.name;
+
+  switch (element.kind) {
+    case 'coffeeName':
+      return 'Coffee name';
+    case 'footer':
+      return 'Product info';
+    case 'image':
+      return 'Image';
+    case 'text':
+      return element.content.split('\n')[0].trim() || 'Text';
+  }
+};
+
+// Largest share of the label a newly added image takes up
+const NEW_IMAGE_MAX_SIZE = 0.4;
+
+// Places a whole image centered on the label, scaled down to a logo-ish size
+export const createImageBox = (
+  url: string,
+  naturalWidth: number,
+  naturalHeight: number,
+  size: DesignSize
+): ImageBox => {
+  const scale = Math.min(
+    (size.width * NEW_IMAGE_MAX_SIZE) / naturalWidth,
+    (size.height * NEW_IMAGE_MAX_SIZE) / naturalHeight,
+    1
+  );
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+
+  return {
+    kind: 'image',
+    id: Date.now().toString(),
+    url,
+    x: (size.width - width) / 2,
+    y: (size.height - height) / 2,
+    width,
+    height,
+    crop: { x: 0, y: 0, width: naturalWidth, height: naturalHeight },
+    originalWidth: naturalWidth,
+    originalHeight: naturalHeight,
+    rotation: 0,
+    opacity: 1
+  };
+};
+
+export const updateElement = (labelData: LabelData, element: LabelElement): LabelData => ({
+  ...labelData,
+  elements: labelData.elements.map(e => (e.id === element.id ? element : e))
+});
+
+export const removeElement = (labelData: LabelData, id: string): LabelData => ({
+  ...labelData,
+  elements: labelData.elements.filter(e => e.id !== id || !isRemovable(e))
+});
+
+export const removeElements = (labelData: LabelData, ids: string[]): LabelData => ({
+  ...labelData,
+  elements: labelData.elements.filter(e => !ids.includes(e.id) || !isRemovable(e))
+});
+
+// Elements that can be copied between labels; the coffee name and footer
+// belong to each label
+export type CopyableElement = TextBox | ImageBox;
+
+export const isCopyable = (element: LabelElement): element is CopyableElement => isRemovable(element);
+
+// How far each paste or duplicate lands from its source
+export const PASTE_OFFSET = 10;
+
+// Adds copies of the elements on top of the stack, offset so they don't hide
+// the originals. Copies get fresh ids, and copied groups become new groups.
+export const pasteElements = (
+  labelData: LabelData,
+  elements: CopyableElement[],
+  offset = PASTE_OFFSET
+): { labelData: LabelData; ids: string[] } => {
+  const stamp = Date.now();
+  const groupIds = new Map<string, string>();
+  const copies = elements.map((element, index) => {
+    const groupId = element.groupId && (groupIds.get(element.groupId) || `group-${stamp}-${groupIds.size}`);
+    if (groupId) groupIds.set(element.groupId, groupId);
+    return { ...element, id: `${stamp}-${index}`, groupId, x: element.x + offset, y: element.y + offset };
+  });
+
+  return {
+    labelData: { ...labelData, elements: [...labelData.elements, ...copies] },
+    ids: copies.map(copy => copy.id)
+  };
+};
+
+export const duplicateElements = (labelData: LabelData, ids: string[]) =>
+  pasteElements(labelData, labelData.elements.filter(e => ids.includes(e.id)).filter(isCopyable));
+
+// Adds every element that shares a group with one of the given ones
+export const expandToGroups = (elements: LabelElement[], ids: string[]): string[] => {
+  const groupIds = new Set(elements.filter(e => ids.includes(e.id) && e.groupId).map(e => e.groupId));
+  return elements.filter(e => ids.includes(e.id) || groupIds.has(e.groupId)).map(e => e.id);
+};
+
+// Puts the elements in one new group, leaving any groups they were in
+export const groupElements = (labelData: LabelData, ids: string[]): LabelData => {
+  const groupId = `group-${Date.now()}`;
+  return {
+    ...labelData,
+    elements: labelData.elements.map(e => (ids.includes(e.id) ? { ...e, groupId } : e))
+  };
+};
+
+export const ungroupElements = (labelData: LabelData, ids: string[]): LabelData => ({
+  ...labelData,
+  elements: labelData.elements.map(e => (ids.includes(e.id) ? { ...e, groupId: undefined } : e))
+});
+
+// Moves an element one step up (1) or down (-1) the stack
+export const moveElement = (labelData: LabelData, id: string, direction: 1 | -1): LabelData => {
+  const index = labelData.elements.findIndex(e => e.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= labelData.elements.length) return labelData;
+
+  const elements = [...labelData.elements];
+  [elements[index], elements[target]] = [elements[target], elements[index]];
+  return { ...labelData, elements };
+};
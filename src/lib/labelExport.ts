@@ -0,0 +1,73 @@
+// Helpers for producing print-resolution label files.
+// The designer edits in design units; exports re-render the same drawing
+// code onto an offscreen canvas scaled to the physical label size.
+
+// Physical output size - label stocks satisfy this
+export interface PrintSize {
+  widthInches: number;
+  heightInches: number;
+}
+
+export const PRINT_DPI_OPTIONS = [300, 600];
+
+export const DEFAULT_PRINT_DPI = 300;
+
+export const getPrintPixelSize = (size: PrintSize, dpi: number) => ({
+  width: Math.round(size.widthInches * dpi),
+  height: Math.round(size.heightInches * dpi),
+});
+
+// Creates an offscreen canvas at print resolution whose context is scaled so
+// that callers can keep drawing in editor (design) coordinates.
+export const createPrintCanvas = (
+  size: PrintSize,
+  dpi: number,
+  designWidth: number,
+  designHeight: number
+) => {
+  const { width, height } = getPrintPixelSize(size, dpi);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to create a 2D context for export');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(width / designWidth, height / designHeight);
+
+  return { canvas, ctx };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode canvas'));
+      }
+    }, type);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,684 @@
+import {
+  FooterLine,
+  ImageBox,
+  LabelData,
+  ProductInfo,
+  TextBox,
+  TextEffects,
+  TextShadow,
+  TextStroke,
+  TextStyle,
+  TextWarp
+} from '@/types/label';
+import { FOOTER_LINE_HEIGHT, createDefaultFooter, resolveFooterText } from './productFooter';
+import { resolveRoastValues } from './roastInfo';
+
+// Resolves where every piece of label text ends up, in design coordinates.
+// The canvas renderer and the vector exporters all draw from this layout so
+// wrapping and font fitting only happen in one place.
+
+export interface TextRun {
+  text: string;
+  x: number; // Anchor x - meaning depends on `align`
+  y: number; // Baseline y
+  fontFamily: string;
+  fontSize: number;
+  bold?: boolean;
+  italic?: boolean;
+  letterSpacing?: number; // Extra space after each letter
+  color: string;
+  align: 'left' | 'center' | 'right';
+  stroke?: TextStroke;
+  shadow?: TextShadow; // Offset along the page axes, whatever the rotation
+  rotation?: number; // Degrees clockwise around (x, y)
+}
+
+// Axis-aligned box in design units
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RoundedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+  fill: string;
+  opacity: number;
+  rotation?: number; // Degrees clockwise around its center
+}
+
+// One entry per visible LabelElement, in stacking order
+export type LayoutElement =
+  | { kind: 'text' | 'coffeeName'; id: string; runs: TextRun[]; plate?: RoundedRect }
+  | { kind: 'image'; id: string; image: ImageBox }
+  | { kind: 'footer'; id: string; background: RoundedRect; runs: TextRun[] };
+
+export interface LabelLayout {
+  elements: LayoutElement[];
+}
+
+export interface DesignSize {
+  width: number;
+  height: number;
+}
+
+// Returns the advance width of `text` drawn with a CSS font shorthand
+export type MeasureText = (text: string, font: string) => number;
+
+export const COFFEE_NAME_DEFAULT_FONT_SIZE = 32;
+export const COFFEE_NAME_MIN_FONT_SIZE = 16;
+// Top of the coffee name size slider, and of pinching it bigger
+export const COFFEE_NAME_MAX_FONT_SIZE = 48;
+export const MIN_TEXT_BOX_FONT_SIZE = 6;
+
+export const DEFAULT_TEXT_WARP_RADIUS = 150;
+export const MIN_TEXT_WARP_RADIUS = 20;
+export const MAX_TEXT_WARP_RADIUS = 800;
+
+export const COFFEE_NAME_STYLE_DEFAULTS: Required<TextStyle> = {
+  bold: true,
+  italic: false,
+  align: 'center',
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  textTransform: 'none'
+};
+
+export const TEXT_BOX_STYLE_DEFAULTS: Required<TextStyle> = {
+  ...COFFEE_NAME_STYLE_DEFAULTS,
+  bold: false,
+  align: 'left'
+};
+
+export const getCoffeeNameStyle = (labelData: LabelData): Required<TextStyle> => ({
+  ...COFFEE_NAME_STYLE_DEFAULTS,
+  ...labelData.coffeeNameStyle
+});
+
+export const getTextBoxStyle = (textBox: TextBox): Required<TextStyle> => ({
+  ...TEXT_BOX_STYLE_DEFAULTS,
+  ...textBox.style
+});
+
+// Effects replace these as a whole once the coffee name has its own
+export const COFFEE_NAME_EFFECTS_DEFAULTS: TextEffects = {
+  stroke: { color: '#000000', width: 2 }
+};
+
+export const getCoffeeNameEffects = (labelData: LabelData): TextEffects =>
+  labelData.coffeeNameEffects || COFFEE_NAME_EFFECTS_DEFAULTS;
+
+export const toCssFont = (run: Pick<TextRun, 'fontFamily' | 'fontSize' | 'bold' | 'italic'>) =>
+  `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${run.fontSize}px ${run.fontFamily}`;
+
+const applyTextTransform = (text: string, style: Required<TextStyle>) =>
+  style.textTransform === 'uppercase' ? text.toUpperCase() : text;
+
+// Measures as if every letter were followed by `letterSpacing`, the way the
+// canvas, PDF and SVG renderers space them
+const withLetterSpacing = (measure: MeasureText, letterSpacing: number): MeasureText =>
+  letterSpacing ? (text, font) => measure(text, font) + letterSpacing * Array.from(text).length : measure;
+
+// Run fields that come straight from the style
+const styleRunFields = (style: Required<TextStyle>) => ({
+  bold: style.bold,
+  italic: style.italic,
+  letterSpacing: style.letterSpacing || undefined
+});
+
+// Checked on the prototype, since assigning letterSpacing on a context that
+// lacks it (Safari before 18) just adds a plain property
+export const CANVAS_SUPPORTS_LETTER_SPACING =
+  typeof CanvasRenderingContext2D !== 'undefined' && 'letterSpacing' in CanvasRenderingContext2D.prototype;
+
+export const createCanvasMeasurer = (ctx?: CanvasRenderingContext2D): MeasureText => {
+  const measureCtx = ctx || document.createElement('canvas').getContext('2d');
+  return (text, font) => {
+    measureCtx.font = font;
+    // Letter spacing is added by the layout itself
+    if (CANVAS_SUPPORTS_LETTER_SPACING) measureCtx.letterSpacing = '0px';
+    return measureCtx.measureText(text).width;
+  };
+};
+
+export const getCoffeeNamePosition = (labelData: LabelData, size: DesignSize) =>
+  labelData.coffeeNamePosition || { x: size.width / 2, y: 80 };
+
+// Shrinks the requested size in 2px steps until the text fits within maxWidth
+export const calculateOptimalFontSize = (
+  measure: MeasureText,
+  text: string,
+  maxWidth: number,
+  requestedFontSize: number,
+  minFontSize: number,
+  toFont: (fontSize: number) => string
+): number => {
+  let fontSize = requestedFontSize;
+
+  while (fontSize >= minFontSize) {
+    const textWidth = measure(text, toFont(fontSize));
+
+    if (textWidth <= maxWidth) {
+      return fontSize;
+    }
+
+    fontSize -= 2; // Reduce by 2px increments
+  }
+
+  return minFontSize;
+};
+
+// Splits a word wider than a whole line into pieces that fit, letter by letter
+const breakWord = (measure: MeasureText, font: string, word: string, maxWidth: number): string[] => {
+  const pieces: string[] = [];
+  let piece = '';
+
+  for (const letter of Array.from(word)) {
+    if (piece && measure(piece + letter, font) > maxWidth) {
+      pieces.push(piece);
+      piece = letter;
+    } else {
+      piece += letter;
+    }
+  }
+  if (piece) pieces.push(piece);
+
+  return pieces;
+};
+
+const wrapWords = (measure: MeasureText, font: string, text: string, maxWidth: number): string[] => {
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+
+    if (measure(testLine, font) <= maxWidth) {
+      currentLine = testLine;
+    } else {
+      if (currentLine) lines.push(currentLine);
+      const pieces = measure(word, font) > maxWidth ? breakWord(measure, font, word, maxWidth) : [word];
+      lines.push(...pieces.slice(0, -1));
+      currentLine = pieces[pieces.length - 1];
+    }
+  }
+  if (currentLine) lines.push(currentLine);
+
+  return lines;
+};
+
+export interface TextLine {
+  text: string;
+  endsParagraph: boolean;
+}
+
+// Wraps each paragraph to maxWidth, or keeps paragraphs whole without one
+const breakLines = (measure: MeasureText, font: string, text: string, maxWidth?: number): TextLine[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines = maxWidth === undefined || measure(paragraph, font) <= maxWidth
+      ? [paragraph]
+      : wrapWords(measure, font, paragraph, maxWidth);
+    return lines.map((line, index) => ({ text: line, endsParagraph: index === lines.length - 1 }));
+  });
+
+// Shortens a line until it fits with a trailing ellipsis
+const addEllipsis = (measure: MeasureText, font: string, text: string, maxWidth: number) => {
+  const letters = Array.from(text);
+  while (letters.length && measure(`${letters.join('').trimEnd()}…`, font) > maxWidth) {
+    letters.pop();
+  }
+  return `${letters.join('').trimEnd()}…`;
+};
+
+// Places lines in the block from `left` to `left + width`. Justified lines
+// become one run per word spread to both edges, except the last line of each
+// paragraph, so every renderer justifies the same way.
+const alignLines = (
+  measure: MeasureText,
+  lines: TextLine[],
+  block: { left: number; width: number; firstBaseline: number; lineHeight: number },
+  align: TextStyle['align'],
+  base: Omit<TextRun, 'text' | 'x' | 'y' | 'align'>
+): TextRun[] => {
+  const font = toCssFont(base);
+
+  return lines.flatMap((line, index) => {
+    const y = block.firstBaseline + index * block.lineHeight;
+    const words = line.text.split(' ').filter(Boolean);
+
+    if (align === 'justify' && !line.endsParagraph && words.length > 1) {
+      const widths = words.map(word => measure(word, font));
+      const gap = (block.width - widths.reduce((sum, width) => sum + width, 0)) / (words.length - 1);
+      let x = block.left;
+      return words.map((word, wordIndex) => {
+        const run: TextRun = { ...base, text: word, x, y, align: 'left' };
+        x += widths[wordIndex] + gap;
+        return run;
+      });
+    }
+
+    const runAlign = align === 'justify' ? 'left' : align;
+    const x = runAlign === 'center'
+      ? block.left + block.width / 2
+      : runAlign === 'right' ? block.left + block.width : block.left;
+    return [{ ...base, text: line.text, x, y, align: runAlign }];
+  });
+};
+
+// Sets one line letter by letter along a circle around (centerX, centerY),
+// with the middle of the line at the top ('up') or bottom ('down') of it
+const layoutArcLine = (
+  measure: MeasureText,
+  text: string,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  direction: TextWarp['direction'],
+  base: Omit<TextRun, 'text' | 'x' | 'y' | 'align' | 'rotation'>
+): TextRun[] => {
+  const font = toCssFont(base);
+  const letters = Array.from(text);
+  const widths = letters.map(letter => measure(letter, font));
+  const sign = direction === 'up' ? 1 : -1;
+  let offset = -widths.reduce((sum, width) => sum + width, 0) / 2;
+
+  return letters.map((letter, index) => {
+    const angle = (offset + widths[index] / 2) / radius;
+    offset += widths[index];
+    return {
+      ...base,
+      text: letter,
+      x: centerX + radius * Math.sin(angle),
+      y: centerY - sign * radius * Math.cos(angle),
+      align: 'center',
+      rotation: (sign * angle * 180) / Math.PI
+    };
+  });
+};
+
+// How far the ends of an arched line bend away from its middle
+const getArcSagitta = (measure: MeasureText, text: string, font: string, radius: number) => {
+  const halfAngle = Math.min(Math.PI, measure(text, font) / 2 / radius);
+  return radius * (1 - Math.cos(halfAngle));
+};
+
+const rotatePoint = (x: number, y: number, pivot: { x: number; y: number }, degrees: number) => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: pivot.x + (x - pivot.x) * cos - (y - pivot.y) * sin,
+    y: pivot.y + (x - pivot.x) * sin + (y - pivot.y) * cos
+  };
+};
+
+// Turns laid-out text rigidly around a pivot
+const rotateRuns = (runs: TextRun[], pivot: { x: number; y: number }, degrees: number): TextRun[] => {
+  if (!degrees) return runs;
+
+  return runs.map(run => ({
+    ...run,
+    ...rotatePoint(run.x, run.y, pivot, degrees),
+    rotation: (run.rotation || 0) + degrees
+  }));
+};
+
+// Bounding box of the letters in a set of runs, treating each as a
+// fontSize-tall box standing on its baseline
+export const getRunsBounds = (runs: TextRun[], measure: MeasureText): Bounds | null => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  runs.forEach(run => {
+    const width = withLetterSpacing(measure, run.letterSpacing || 0)(run.text, toCssFont(run));
+    const left = run.align === 'center' ? -width / 2 : run.align === 'right' ? -width : 0;
+    const angle = ((run.rotation || 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    [[left, 0], [left + width, 0], [left, -run.fontSize], [left + width, -run.fontSize]].forEach(([dx, dy]) => {
+      xs.push(run.x + dx * cos - dy * sin);
+      ys.push(run.y + dx * sin + dy * cos);
+    });
+  });
+
+  if (!xs.length) return null;
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Adds the effects to unrotated runs, then turns runs and plate together
+const applyTextEffects = (
+  runs: TextRun[],
+  effects: TextEffects,
+  pivot: { x: number; y: number },
+  rotation: number,
+  measure: MeasureText
+): { runs: TextRun[]; plate?: RoundedRect } => {
+  const styled = runs.map(run => ({ ...run, stroke: effects.stroke, shadow: effects.shadow }));
+  const bounds = effects.plate && getRunsBounds(runs, measure);
+  if (!bounds) return { runs: rotateRuns(styled, pivot, rotation) };
+
+  const { padding } = effects.plate;
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+  const center = rotatePoint(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2, pivot, rotation);
+
+  return {
+    runs: rotateRuns(styled, pivot, rotation),
+    plate: {
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+      radius: effects.plate.radius,
+      fill: effects.plate.color,
+      opacity: effects.plate.opacity,
+      rotation: rotation || undefined
+    }
+  };
+};
+
+export const getCoffeeNameText = (labelData: LabelData, productInfo?: ProductInfo | null) =>
+  productInfo?.name || labelData.coffeeName || 'Coffee Name';
+
+// The coffee name before rotation; rotation turns it around its position
+const layoutUnrotatedCoffeeName = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  size: DesignSize,
+  measure: MeasureText
+): TextRun[] => {
+  const style = getCoffeeNameStyle(labelData);
+  const coffeeName = applyTextTransform(getCoffeeNameText(labelData, productInfo), style);
+  const fontFamily = labelData.coffeeNameFont || 'serif';
+  const maxWidth = size.width - 40; // Leave 20px margin on each side
+  const requestedFontSize = labelData.coffeeNameFontSize || COFFEE_NAME_DEFAULT_FONT_SIZE;
+  const position = getCoffeeNamePosition(labelData, size);
+  const spacedMeasure = withLetterSpacing(measure, style.letterSpacing);
+  const toFont = (fontSize: number) => toCssFont({ fontFamily, fontSize, bold: style.bold, italic: style.italic });
+
+  // Calculate optimal font size based on user's requested size
+  const fontSize = calculateOptimalFontSize(
+    spacedMeasure, coffeeName, maxWidth, requestedFontSize, COFFEE_NAME_MIN_FONT_SIZE, toFont
+  );
+  const font = toFont(fontSize);
+
+  const base = {
+    fontFamily,
+    fontSize,
+    ...styleRunFields(style),
+    color: labelData.coffeeNameColor || '#ffffff'
+  };
+
+  // Curved names stay on one line, with their middle at the position.
+  // Letters are spaced by the layout, so runs carry no spacing of their own.
+  const warp = labelData.coffeeNameWarp;
+  if (warp) {
+    const radius = Math.max(MIN_TEXT_WARP_RADIUS, warp.radius);
+    const centerY = warp.direction === 'up' ? position.y + radius : position.y - radius;
+    return layoutArcLine(
+      spacedMeasure, coffeeName, position.x, centerY, radius, warp.direction, { ...base, letterSpacing: undefined }
+    );
+  }
+
+  // Wrap only when the text still doesn't fit at the minimum size
+  const lines = fontSize === COFFEE_NAME_MIN_FONT_SIZE
+    ? breakLines(spacedMeasure, font, coffeeName, maxWidth)
+    : breakLines(spacedMeasure, font, coffeeName);
+  const lineHeight = fontSize * style.lineHeight;
+  const blockWidth = Math.max(...lines.map(line => spacedMeasure(line.text, font)));
+
+  // Lines are aligned within their own block, centered on the position
+  return alignLines(spacedMeasure, lines, {
+    left: position.x - blockWidth / 2,
+    width: blockWidth,
+    firstBaseline: position.y - ((lines.length - 1) * lineHeight) / 2,
+    lineHeight
+  }, style.align, base);
+};
+
+// Unrotated bounds of the coffee name, used for the overlay hit area. The
+// overlay applies coffeeNameRotation around the position itself.
+export const measureCoffeeName = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  size: DesignSize,
+  measure: MeasureText
+): Bounds => {
+  const position = getCoffeeNamePosition(labelData, size);
+  return getRunsBounds(layoutUnrotatedCoffeeName(labelData, productInfo, size, measure), measure) ||
+    { x: position.x, y: position.y, width: 0, height: 0 };
+};
+
+const layoutCoffeeName = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  size: DesignSize,
+  measure: MeasureText
+) =>
+  applyTextEffects(
+    layoutUnrotatedCoffeeName(labelData, productInfo, size, measure),
+    getCoffeeNameEffects(labelData),
+    getCoffeeNamePosition(labelData, size),
+    labelData.coffeeNameRotation || 0,
+    measure
+  );
+
+// Free text keeps its letters a little off the box edges
+export const getTextBoxPadding = (textBox: TextBox) => (textBox.type === 'freeText' ? 5 : 0);
+
+export interface TextBoxContent {
+  lines: TextLine[];
+  fontSize: number; // Lower than the box's own when shrunk to fit
+  lineHeight: number; // Baseline to baseline
+  overflows: boolean; // The text needs more height than the box has
+}
+
+// The one text box engine: wraps to the box width, breaks words too long for
+// a line and applies the overflow mode. The renderers, the exporters and the
+// editing overlay all lay text out through it.
+export const fitTextBoxContent = (textBox: TextBox, measure: MeasureText): TextBoxContent => {
+  const style = getTextBoxStyle(textBox);
+  const content = applyTextTransform(textBox.content, style);
+  const spacedMeasure = withLetterSpacing(measure, style.letterSpacing);
+  const maxWidth = textBox.width - getTextBoxPadding(textBox) * 2;
+  const overflow = textBox.overflow || 'visible';
+  const toFont = (fontSize: number) =>
+    toCssFont({ fontFamily: textBox.fontFamily, fontSize, bold: style.bold, italic: style.italic });
+
+  const breakAt = (fontSize: number): TextBoxContent => {
+    const lines = breakLines(spacedMeasure, toFont(fontSize), content, maxWidth);
+    const lineHeight = fontSize * style.lineHeight;
+    return { lines, fontSize, lineHeight, overflows: lines.length * lineHeight > textBox.height };
+  };
+
+  // Auto-fit starts from one line filling the box height, sized down like the
+  // coffee name until the widest word fits on a line without breaking
+  const getFitSize = () => {
+    const referenceFont = toFont(MIN_TEXT_BOX_FONT_SIZE);
+    const widestWord = content.split(/\s+/).reduce((widest, word) =>
+      spacedMeasure(word, referenceFont) > spacedMeasure(widest, referenceFont) ? word : widest, '');
+    const lineFillingSize = Math.floor(textBox.height / style.lineHeight);
+    return calculateOptimalFontSize(
+      spacedMeasure,
+      widestWord,
+      maxWidth,
+      Math.max(MIN_TEXT_BOX_FONT_SIZE, lineFillingSize),
+      MIN_TEXT_BOX_FONT_SIZE,
+      toFont
+    );
+  };
+  const startSize = overflow === 'fit' ? getFitSize() : textBox.fontSize;
+
+  let fitted = breakAt(startSize);
+  if (overflow === 'shrink' || overflow === 'fit') {
+    while (fitted.overflows && fitted.fontSize > MIN_TEXT_BOX_FONT_SIZE) {
+      fitted = breakAt(Math.max(MIN_TEXT_BOX_FONT_SIZE, fitted.fontSize - 1));
+    }
+  }
+  if (!fitted.overflows || overflow === 'visible' || overflow === 'shrink' || overflow === 'fit') return fitted;
+
+  // Clipping works in whole lines, so every renderer cuts at the same place.
+  // The first line always stays so the box never looks empty.
+  const lines = fitted.lines.slice(0, Math.max(1, Math.floor(textBox.height / fitted.lineHeight)));
+  if (overflow === 'ellipsis') {
+    const last = lines[lines.length - 1];
+    lines[lines.length - 1] = {
+      text: addEllipsis(spacedMeasure, toFont(fitted.fontSize), last.text, maxWidth),
+      endsParagraph: true
+    };
+  }
+  return { ...fitted, lines };
+};
+
+const layoutUnrotatedTextBox = (textBox: TextBox, measure: MeasureText): TextRun[] => {
+  const style = getTextBoxStyle(textBox);
+  const spacedMeasure = withLetterSpacing(measure, style.letterSpacing);
+  const base = {
+    fontFamily: textBox.fontFamily,
+    fontSize: textBox.fontSize,
+    ...styleRunFields(style),
+    color: textBox.color
+  };
+
+  // Curved free text: each line on its own concentric arc, centered in the
+  // box with the first line's highest point at the usual first baseline
+  if (textBox.type === 'freeText' && textBox.warp) {
+    const { direction } = textBox.warp;
+    const radius = Math.max(MIN_TEXT_WARP_RADIUS, textBox.warp.radius);
+    const lines = applyTextTransform(textBox.content, style).split('\n');
+    const lineHeight = textBox.fontSize * style.lineHeight;
+    const firstBaseline = textBox.y + lineHeight;
+    const centerX = textBox.x + textBox.width / 2;
+    const centerY = direction === 'up'
+      ? firstBaseline + radius
+      : firstBaseline + getArcSagitta(spacedMeasure, lines[0], toCssFont(base), radius) - radius;
+
+    return lines.flatMap((line, index) => {
+      const lineRadius = direction === 'up' ? radius - index * lineHeight : radius + index * lineHeight;
+      return lineRadius > 0
+        ? layoutArcLine(spacedMeasure, line, centerX, centerY, lineRadius, direction, { ...base, letterSpacing: undefined })
+        : [];
+    });
+  }
+
+  const fitted = fitTextBoxContent(textBox, measure);
+  const padding = getTextBoxPadding(textBox);
+
+  return alignLines(spacedMeasure, fitted.lines, {
+    left: textBox.x + padding,
+    width: textBox.width - padding * 2,
+    firstBaseline: textBox.y + fitted.lineHeight,
+    lineHeight: fitted.lineHeight
+  }, style.align, { ...base, fontSize: fitted.fontSize });
+};
+
+// Text boxes turn around their center, like the overlay box does
+const layoutTextBox = (textBox: TextBox, measure: MeasureText) =>
+  applyTextEffects(
+    layoutUnrotatedTextBox(textBox, measure),
+    textBox.effects || {},
+    { x: textBox.x + textBox.width / 2, y: textBox.y + textBox.height / 2 },
+    textBox.rotation || 0,
+    measure
+  );
+
+const layoutFooter = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  size: DesignSize
+) => {
+  const footer = labelData.footer || createDefaultFooter(size);
+  const roastValues = resolveRoastValues(labelData.roast, getCoffeeNameText(labelData, productInfo));
+
+  const background: RoundedRect = {
+    x: footer.x,
+    y: footer.y,
+    width: footer.width,
+    height: footer.height,
+    radius: footer.cornerRadius,
+    fill: footer.backgroundColor,
+    opacity: footer.backgroundOpacity
+  };
+
+  const runs: TextRun[] = [];
+  const { padding } = footer;
+
+  // Columns are inset so split lines don't crowd the rounded corners
+  const columnInset = footer.width * 0.125;
+  const columnX = {
+    left: footer.x + padding + columnInset,
+    center: footer.x + footer.width / 2,
+    right: footer.x + footer.width - padding - columnInset
+  };
+
+  const addLine = (line: FooterLine, y: number) => {
+    const aligns: TextRun['align'][] = line.segments.length === 1
+      ? ['center']
+      : line.segments.length === 2 ? ['left', 'right'] : ['left', 'center', 'right'];
+
+    line.segments.slice(0, 3).forEach((segment, index) => {
+      const align = aligns[index];
+      runs.push({
+        text: resolveFooterText(segment, productInfo, roastValues),
+        x: columnX[align],
+        y,
+        fontFamily: footer.fontFamily,
+        fontSize: line.fontSize,
+        color: footer.color,
+        align
+      });
+    });
+  };
+
+  // Top lines stack down from the top edge of the block
+  let topY = footer.y + padding;
+  footer.lines
+    .filter(line => line.anchor === 'top')
+    .forEach((line, index) => {
+      topY += index === 0 ? line.fontSize : line.fontSize * FOOTER_LINE_HEIGHT;
+      addLine(line, topY);
+    });
+
+  // Bottom lines stack up from the bottom edge, keeping their listed order
+  let bottomY = footer.y + footer.height - padding;
+  footer.lines
+    .filter(line => line.anchor === 'bottom')
+    .reverse()
+    .forEach(line => {
+      addLine(line, bottomY);
+      bottomY -= line.fontSize * FOOTER_LINE_HEIGHT;
+    });
+
+  return { background, runs };
+};
+
+export const computeLabelLayout = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  size: DesignSize,
+  measure: MeasureText
+): LabelLayout => ({
+  elements: labelData.elements
+    .filter(element => !element.hidden)
+    .map((element): LayoutElement => {
+      switch (element.kind) {
+        case 'coffeeName':
+          return { kind: 'coffeeName', id: element.id, ...layoutCoffeeName(labelData, productInfo, size, measure) };
+        case 'footer':
+          return { kind: 'footer', id: element.id, ...layoutFooter(labelData, productInfo, size) };
+        case 'image':
+          return { kind: 'image', id: element.id, image: element };
+        case 'text':
+          return { kind: 'text', id: element.id, ...layoutTextBox(element, measure) };
+      }
+    })
+});
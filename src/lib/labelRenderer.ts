@@ -0,0 +1,235 @@
+import { ImageBox, LabelData, ProductInfo } from '@/types/label';
+import {
+  CANVAS_SUPPORTS_LETTER_SPACING,
+  DesignSize,
+  RoundedRect,
+  TextRun,
+  computeLabelLayout,
+  createCanvasMeasurer,
+  toCssFont
+} from './labelLayout';
+import { loadImage } from './labelExport';
+import { getBackgroundPlacement, getFlipScale, toRadians } from './imageTransform';
+
+// Pure canvas renderer for labels. Everything is drawn in design coordinates;
+// callers that need a different output resolution (print export, thumbnails,
+// batch printing) scale the context before calling renderLabel. Images must be
+// loaded up front so a render is synchronous and deterministic.
+
+export interface RenderImages {
+  background?: HTMLImageElement | null;
+  // Image elements, keyed by URL
+  elements?: Record<string, HTMLImageElement | null | undefined>;
+}
+
+export interface RenderOptions {
+  size: DesignSize;
+  images?: RenderImages;
+  watermark?: boolean;
+  // Clips to the die-cut shape of the label stock, in design units
+  cornerRadius?: number;
+}
+
+const toRgba = (color: string, opacity: number) => {
+  let hex = color.trim().replace('#', '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  const value = parseInt(hex, 16) || 0;
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+// Draws letter by letter with `spacing` after each one, for browsers whose
+// canvas has no letterSpacing (Safari before 18). Each letter goes where the
+// text before it ends, so kerning is kept.
+const drawSpacedText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  spacing: number,
+  drawLetter: (letter: string, x: number) => void
+) => {
+  const letters = Array.from(text);
+  const width = ctx.measureText(text).width + spacing * letters.length;
+  const start = ctx.textAlign === 'center' ? -width / 2 : ctx.textAlign === 'right' ? -width : 0;
+
+  ctx.save();
+  ctx.textAlign = 'left';
+  letters.forEach((letter, i) => {
+    drawLetter(letter, start + ctx.measureText(letters.slice(0, i).join('')).width + spacing * i);
+  });
+  ctx.restore();
+};
+
+const drawTextRun = (ctx: CanvasRenderingContext2D, run: TextRun) => {
+  // Canvas shadows ignore the transform, so scale them to the output first
+  const transform = ctx.getTransform();
+  const outputScale = Math.hypot(transform.a, transform.b);
+
+  ctx.save();
+  ctx.translate(run.x, run.y);
+  if (run.rotation) ctx.rotate(toRadians(run.rotation));
+  ctx.font = toCssFont(run);
+  const spacing = run.letterSpacing || 0;
+  if (CANVAS_SUPPORTS_LETTER_SPACING) ctx.letterSpacing = `${spacing}px`;
+  ctx.textAlign = run.align;
+  ctx.fillStyle = run.color;
+  if (run.stroke) {
+    ctx.strokeStyle = run.stroke.color;
+    ctx.lineWidth = run.stroke.width;
+  }
+
+  const drawText = (text: string, x: number) => {
+    if (run.stroke) ctx.strokeText(text, x, 0);
+    ctx.fillText(text, x, 0);
+  };
+  const draw = () => {
+    if (spacing && !CANVAS_SUPPORTS_LETTER_SPACING) {
+      drawSpacedText(ctx, run.text, spacing, drawText);
+    } else {
+      drawText(run.text, 0);
+    }
+  };
+
+  // The shadow pass goes underneath, then the text is drawn again crisp on
+  // top so the shadow of the fill never covers the outline
+  if (run.shadow) {
+    ctx.save();
+    ctx.shadowColor = toRgba(run.shadow.color, run.shadow.opacity);
+    ctx.shadowOffsetX = run.shadow.offsetX * outputScale;
+    ctx.shadowOffsetY = run.shadow.offsetY * outputScale;
+    ctx.shadowBlur = run.shadow.blur * outputScale;
+    draw();
+    ctx.restore();
+  }
+  draw();
+  ctx.restore();
+};
+
+const drawRoundedRect = (ctx: CanvasRenderingContext2D, rect: RoundedRect) => {
+  ctx.save();
+  ctx.globalAlpha = rect.opacity;
+  ctx.fillStyle = rect.fill;
+  ctx.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+  if (rect.rotation) ctx.rotate(toRadians(rect.rotation));
+  ctx.beginPath();
+  ctx.roundRect(-rect.width / 2, -rect.height / 2, rect.width, rect.height, rect.radius);
+  ctx.fill();
+  ctx.restore();
+};
+
+const drawBackgroundImage = (
+  ctx: CanvasRenderingContext2D,
+  labelData: LabelData,
+  image: HTMLImageElement,
+  size: DesignSize
+) => {
+  const bgImg = labelData.backgroundImage;
+  if (!bgImg) return;
+
+  // The crop rectangle from ImageAdjustModal fills the entire label; the rest
+  // of the photo is drawn too so rotated corners stay covered
+  const placement = getBackgroundPlacement(bgImg, size);
+  ctx.save();
+  ctx.translate(size.width / 2, size.height / 2);
+  ctx.rotate(toRadians(bgImg.rotation));
+  ctx.scale(placement.scaleX * placement.flip.x, placement.scaleY * placement.flip.y);
+  ctx.drawImage(
+    image,
+    -placement.cropCenterX, -placement.cropCenterY, bgImg.originalWidth, bgImg.originalHeight
+  );
+  ctx.restore();
+};
+
+const drawImageBox = (ctx: CanvasRenderingContext2D, box: ImageBox, image: HTMLImageElement) => {
+  const flip = getFlipScale(box);
+  ctx.save();
+  ctx.globalAlpha = box.opacity;
+  ctx.translate(box.x + box.width / 2, box.y + box.height / 2);
+  ctx.rotate(toRadians(box.rotation));
+  ctx.scale(flip.x, flip.y);
+  ctx.drawImage(
+    image,
+    box.crop.x, box.crop.y, box.crop.width, box.crop.height,
+    -box.width / 2, -box.height / 2, box.width, box.height
+  );
+  ctx.restore();
+};
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, size: DesignSize) => {
+  ctx.save();
+  ctx.globalAlpha = 0.3;
+  ctx.font = 'bold 48px serif';
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.translate(size.width / 2, size.height / 2);
+  ctx.rotate(-Math.PI / 6);
+  ctx.fillText('PREVIEW ONLY', 0, 0);
+  ctx.restore();
+};
+
+export const renderLabel = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  options: RenderOptions,
+  ctx: CanvasRenderingContext2D
+) => {
+  const { size, images = {}, watermark = false, cornerRadius = 0 } = options;
+
+  ctx.save();
+  ctx.clearRect(0, 0, size.width, size.height);
+  if (cornerRadius > 0) {
+    ctx.beginPath();
+    ctx.roundRect(0, 0, size.width, size.height, cornerRadius);
+    ctx.clip();
+  }
+
+  // White label stock
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size.width, size.height);
+
+  // Background image is the bottom layer
+  if (images.background) {
+    drawBackgroundImage(ctx, labelData, images.background, size);
+  }
+
+  const layout = computeLabelLayout(labelData, productInfo, size, createCanvasMeasurer(ctx));
+
+  // The element stack, from the bottom up
+  layout.elements.forEach(element => {
+    switch (element.kind) {
+      case 'image': {
+        // Skipped until loaded; the caller re-renders when it arrives
+        const image = images.elements?.[element.image.url];
+        if (image) drawImageBox(ctx, element.image, image);
+        break;
+      }
+      case 'footer':
+        // Product info on its rounded background
+        drawRoundedRect(ctx, element.background);
+        element.runs.forEach(run => drawTextRun(ctx, run));
+        break;
+      default:
+        if (element.plate) drawRoundedRect(ctx, element.plate);
+        element.runs.forEach(run => drawTextRun(ctx, run));
+    }
+  });
+
+  if (watermark) {
+    drawWatermark(ctx, size);
+  }
+  ctx.restore();
+};
+
+// Loads every image a label references so it can be passed to renderLabel
+export const loadRenderImages = async (labelData: LabelData): Promise<RenderImages> => {
+  const urls = [...new Set(getElementImageUrls(labelData))];
+  const loaded = await Promise.all(urls.map(url => loadImage(url)));
+
+  return {
+    background: labelData.backgroundImage ? await loadImage(labelData.backgroundImage.url) : null,
+    elements: Object.fromEntries(urls.map((url, index) => [url, loaded[index]]))
+  };
+};
+
+export const getElementImageUrls = (labelData: LabelData) =>
+  labelData.elements.flatMap(element => (element.kind === 'image' ? [element.url] : []));
@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import { LabelData } from '@/types/label';
+import { DEFAULT_LABEL_STOCK_ID } from './labelStock';
+import { DEFAULT_ROAST_INFO } from './roastInfo';
+import { CopyableElement, createDefaultElements } from './labelElements';
+
+// Versioned on-disk format for label designs, used for .json export/import and
+// for saved designs. Bump LABEL_SCHEMA_VERSION whenever LabelData changes shape
+// and add a migration from the previous version, so older files keep opening.
+
+export const LABEL_SCHEMA_VERSION = 11;
+
+export interface LabelDocument {
+  schemaVersion: number;
+  label: LabelData;
+}
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+const layerStateSchema = z.object({
+  name: z.string().optional(),
+  hidden: z.boolean().optional(),
+  locked: z.boolean().optional(),
+  groupId: z.string().optional()
+});
+
+const textWarpSchema = z.object({
+  radius: z.number().positive(),
+  direction: z.enum(['up', 'down'])
+});
+
+const textStyleSchema = z.object({
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  align: z.enum(['left', 'center', 'right', 'justify']).optional(),
+  letterSpacing: z.number().optional(),
+  lineHeight: z.number().positive().optional(),
+  textTransform: z.enum(['none', 'uppercase']).optional()
+});
+
+const textEffectsSchema = z.object({
+  stroke: z.object({
+    color: z.string(),
+    width: z.number().nonnegative()
+  }).optional(),
+  shadow: z.object({
+    color: z.string(),
+    opacity: z.number().min(0).max(1),
+    offsetX: z.number(),
+    offsetY: z.number(),
+    blur: z.number().nonnegative()
+  }).optional(),
+  plate: z.object({
+    color: z.string(),
+    opacity: z.number().min(0).max(1),
+    padding: z.number().nonnegative(),
+    radius: z.number().nonnegative()
+  }).optional()
+});
+
+const textBoxSchema = layerStateSchema.extend({
+  kind: z.literal('text'),
+  id: z.string(),
+  content: z.string(),
+  x: z.number(),
+  y: z.number(),
+  fontSize: z.number().positive(),
+  fontFamily: z.string(),
+  color: z.string(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  type: z.enum(['regular', 'freeText']).default('regular'),
+  style: textStyleSchema.optional(),
+  effects: textEffectsSchema.optional(),
+  overflow: z.enum(['visible', 'shrink', 'clip', 'ellipsis', 'fit']).optional(),
+  rotation: z.number().optional(),
+  warp: textWarpSchema.optional()
+});
+
+const imageElementSchema = z.object({
+  url: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  rotation: z.number().default(0),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+  originalWidth: z.number().positive(),
+  originalHeight: z.number().positive()
+});
+
+const imageBoxSchema = layerStateSchema.extend({
+  kind: z.literal('image'),
+  id: z.string(),
+  url: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  crop: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive()
+  }),
+  originalWidth: z.number().positive(),
+  originalHeight: z.number().positive(),
+  rotation: z.number().default(0),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+  opacity: z.number().min(0).max(1).default(1)
+});
+
+const coffeeNameLayerSchema = layerStateSchema.extend({
+  kind: z.literal('coffeeName'),
+  id: z.string()
+});
+
+const footerLayerSchema = layerStateSchema.extend({
+  kind: z.literal('footer'),
+  id: z.string()
+});
+
+const elementSchema = z.discriminatedUnion('kind', [
+  textBoxSchema,
+  imageBoxSchema,
+  coffeeNameLayerSchema,
+  footerLayerSchema
+]);
+
+// Copied elements on the clipboard, which may come from another label or tab
+const clipboardSchema = z.array(z.discriminatedUnion('kind', [textBoxSchema, imageBoxSchema]));
+
+const footerLineSchema = z.object({
+  id: z.string(),
+  segments: z.array(z.string()).min(1).max(3),
+  fontSize: z.number().positive(),
+  anchor: z.enum(['top', 'bottom'])
+});
+
+const footerSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  padding: z.number().nonnegative(),
+  cornerRadius: z.number().nonnegative(),
+  fontFamily: z.string(),
+  color: z.string(),
+  backgroundColor: z.string(),
+  backgroundOpacity: z.number().min(0).max(1),
+  lines: z.array(footerLineSchema)
+});
+
+const roastInfoSchema = z.object({
+  roastDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dateFormat: z.enum(['iso', 'us', 'month-day']).default(DEFAULT_ROAST_INFO.dateFormat),
+  bestByDays: z.number().int().positive().nullable().optional(),
+  lotCode: z.string().optional()
+});
+
+export const labelDataSchema = z.object({
+  stockId: z.string().optional(),
+  coffeeName: z.string().default(''),
+  coffeeNameFont: z.string().default('serif'),
+  coffeeNameColor: z.string().default('#ffffff'),
+  coffeeNameFontSize: z.number().positive().optional(),
+  coffeeNameStyle: textStyleSchema.optional(),
+  coffeeNameEffects: textEffectsSchema.optional(),
+  coffeeNamePosition: positionSchema.optional(),
+  coffeeNameRotation: z.number().optional(),
+  coffeeNameWarp: textWarpSchema.optional(),
+  backgroundImage: imageElementSchema.optional(),
+  elements: z
+    .array(elementSchema)
+    .refine(
+      elements => ['coffeeName', 'footer'].every(kind => elements.filter(e => e.kind === kind).length === 1),
+      'Needs exactly one coffee name and one footer layer'
+    )
+    .default(createDefaultElements),
+  footer: footerSchema.optional(),
+  roast: roastInfoSchema.optional()
+});
+
+// Each migration takes a document of version N to N + 1. Documents are untyped
+// here because they predate the current LabelData.
+type RawLabel = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (label: RawLabel) => RawLabel> = {
+  // v1: the original 4x6 in label, before label stocks and roast info
+  1: (label) => ({
+    ...label,
+    stockId: label.stockId ?? DEFAULT_LABEL_STOCK_ID,
+    roast: label.roast ?? DEFAULT_ROAST_INFO
+  }),
+  // v2: text boxes only, free text drawn behind regular boxes
+  2: ({ textBoxes, ...label }) => {
+    const boxes = Array.isArray(textBoxes) ? textBoxes.filter(isObject) : [];
+    return {
+      ...label,
+      elements: [
+        ...boxes.filter(box => box.type === 'freeText'),
+        ...boxes.filter(box => box.type !== 'freeText')
+      ].map(box => ({ ...box, kind: 'text' }))
+    };
+  },
+  // v3: the coffee name was drawn below every element and the footer above
+  3: (label) => {
+    const [coffeeName, footer] = createDefaultElements();
+    const elements = Array.isArray(label.elements) ? label.elements : [];
+    return { ...label, elements: [coffeeName, ...elements, footer] };
+  },
+  // v4: no image flips. They're optional, so v4 designs read as they are; the
+  // bump makes older builds refuse newer files instead of dropping the flips.
+  4: (label) => label,
+  // v5: no text rotation or arcs
+  5: (label) => label,
+  // v6: no text styles
+  6: (label) => label,
+  // v7: no text outline, shadow or plate
+  7: (label) => label,
+  // v8: no text overflow modes
+  8: (label) => label,
+  // v9: no auto-fit overflow
+  9: (label) => label,
+  // v10: no layer groups
+  10: (label) => label
+};
+
+const isObject = (value: unknown): value is RawLabel =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const serializeLabel = (label: LabelData): LabelDocument => ({
+  schemaVersion: LABEL_SCHEMA_VERSION,
+  label
+});
+
+// Accepts a LabelDocument of any known version, or a bare LabelData object as
+// saved before documents were versioned, and returns a current LabelData.
+// Throws with a readable message when the design can't be used.
+export const parseLabelDocument = (value: unknown): LabelData => {
+  if (!isObject(value)) {
+    throw new Error('Not a label design');
+  }
+
+  let version: number;
+  let label: unknown;
+  if ('schemaVersion' in value) {
+    version = Number(value.schemaVersion);
+    label = value.label;
+  } else {
+    version = 1;
+    label = value;
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Unknown label design version');
+  }
+  if (version > LABEL_SCHEMA_VERSION) {
+    throw new Error('This design was made with a newer version of the designer');
+  }
+  if (!isObject(label)) {
+    throw new Error('Label design is missing its label');
+  }
+
+  let migrated = label;
+  for (let v = version; v < LABEL_SCHEMA_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+
+  const result = labelDataSchema.safeParse(migrated);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid label design: ${issue.path.join('.') || 'label'} - ${issue.message}`);
+  }
+  // zod marks every field optional without strictNullChecks; the schema
+  // itself guarantees the required ones
+  return result.data as LabelData;
+};
+
+export const labelToJson = (label: LabelData) => JSON.stringify(serializeLabel(label), null, 2);
+
+export const labelFromJson = (json: string): LabelData => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  return parseLabelDocument(value);
+};
+
+// Elements from a clipboard entry, or an empty list when it isn't usable
+export const parseClipboardElements = (value: unknown): CopyableElement[] => {
+  const result = clipboardSchema.safeParse(value);
+  return result.success ? (result.data as CopyableElement[]) : [];
+};
@@ -0,0 +1,181 @@
+import { LabelData } from '@/types/label';
+import { Bounds, DesignSize } from './labelLayout';
+import { BoundsContext, getElementBounds } from './labelAlignment';
+import { DESIGN_UNITS_PER_INCH } from './labelStock';
+
+// Snapping while dragging: an element's edges and center line pull onto the
+// label's center lines, edges, safe-area margins and other elements' edges and
+// centers, and onto the grid when it's on. Like the rest of the editor this
+// works in design units.
+
+export type RulerUnit = 'in' | 'mm';
+
+export interface CanvasGuideSettings {
+  snap: boolean;
+  showRulers: boolean;
+  rulerUnit: RulerUnit;
+  showGrid: boolean;
+  gridSize: number; // Design units
+}
+
+export const DEFAULT_GUIDE_SETTINGS: CanvasGuideSettings = {
+  snap: true,
+  showRulers: false,
+  rulerUnit: 'in',
+  showGrid: false,
+  gridSize: DESIGN_UNITS_PER_INCH / 4
+};
+
+export const MM_PER_INCH = 25.4;
+
+// Thickness of each ruler outside the label
+export const RULER_SIZE = 20;
+
+// Grid spacings offered for each ruler unit, in design units
+export const GRID_SIZE_OPTIONS: Record<RulerUnit, { label: string; size: number }[]> = {
+  in: [
+    { label: '1/8 in', size: DESIGN_UNITS_PER_INCH / 8 },
+    { label: '1/4 in', size: DESIGN_UNITS_PER_INCH / 4 },
+    { label: '1/2 in', size: DESIGN_UNITS_PER_INCH / 2 }
+  ],
+  mm: [
+    { label: '2 mm', size: (2 * DESIGN_UNITS_PER_INCH) / MM_PER_INCH },
+    { label: '5 mm', size: (5 * DESIGN_UNITS_PER_INCH) / MM_PER_INCH },
+    { label: '10 mm', size: (10 * DESIGN_UNITS_PER_INCH) / MM_PER_INCH }
+  ]
+};
+
+// How close an edge has to come before it snaps
+export const SNAP_THRESHOLD = 5;
+
+// A vertical line at x, or a horizontal line at y, drawn while snapped to it
+export interface SnapGuide {
+  axis: 'x' | 'y';
+  position: number;
+}
+
+export interface SnapTargets {
+  x: number[];
+  y: number[];
+  gridSize?: number; // Leave out when the grid is off
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+// Corrects a dragged element's proposed bounds onto nearby lines
+export type SnapMove = (bounds: Bounds) => { dx: number; dy: number };
+
+const GUIDE_SETTINGS_STORAGE_KEY = 'labelDesigner.canvasGuides';
+
+// Rulers and grid are a workspace preference, kept the same across designs
+// so labels in a product line line up the same way
+export const loadGuideSettings = (): CanvasGuideSettings => {
+  try {
+    const stored = localStorage.getItem(GUIDE_SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_GUIDE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_GUIDE_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load canvas guide settings:', error);
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+export const saveGuideSettings = (settings: CanvasGuideSettings) => {
+  localStorage.setItem(GUIDE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Lines to snap to, leaving out the elements being dragged
+export const getSnapTargets = (
+  labelData: LabelData,
+  movingIds: string[],
+  context: BoundsContext,
+  safeMargin: number,
+  gridSize?: number
+): SnapTargets => {
+  const { width, height } = context.size;
+  const x = [0, safeMargin, width / 2, width - safeMargin, width];
+  const y = [0, safeMargin, height / 2, height - safeMargin, height];
+
+  labelData.elements
+    .filter(element => !element.hidden && !movingIds.includes(element.id))
+    .forEach(element => {
+      const bounds = getElementBounds(labelData, element, context);
+      x.push(bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width);
+      y.push(bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height);
+    });
+
+  return { x, y, gridSize };
+};
+
+// Best correction for one axis: the closest of the element's start, center
+// and end to any target line, else its start onto the grid
+const snapAxis = (
+  start: number,
+  length: number,
+  targets: number[],
+  threshold: number,
+  gridSize?: number
+): { offset: number; guides: number[] } => {
+  let best: number | null = null;
+  [start, start + length / 2, start + length].forEach(edge => {
+    targets.forEach(target => {
+      const offset = target - edge;
+      if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+        best = offset;
+      }
+    });
+  });
+
+  if (best !== null) {
+    // Every line the snapped element now touches gets a guide
+    const edges = [start, start + length / 2, start + length].map(edge => edge + best!);
+    const guides = [...new Set(targets.filter(target => edges.some(edge => Math.abs(edge - target) < 0.5)))];
+    return { offset: best, guides };
+  }
+
+  if (gridSize) {
+    const offset = Math.round(start / gridSize) * gridSize - start;
+    if (Math.abs(offset) <= threshold) return { offset, guides: [] };
+  }
+  return { offset: 0, guides: [] };
+};
+
+export const snapBounds = (bounds: Bounds, targets: SnapTargets, threshold = SNAP_THRESHOLD): SnapResult => {
+  const x = snapAxis(bounds.x, bounds.width, targets.x, threshold, targets.gridSize);
+  const y = snapAxis(bounds.y, bounds.height, targets.y, threshold, targets.gridSize);
+  return {
+    dx: x.offset,
+    dy: y.offset,
+    guides: [
+      ...x.guides.map(position => ({ axis: 'x' as const, position })),
+      ...y.guides.map(position => ({ axis: 'y' as const, position }))
+    ]
+  };
+};
+
+// Tick marks for a ruler along a side of the label, in design units
+export const getRulerTicks = (length: number, unit: RulerUnit) => {
+  // Inches split into eighths; millimetres labelled every centimetre
+  const step = unit === 'in' ? DESIGN_UNITS_PER_INCH / 8 : DESIGN_UNITS_PER_INCH / MM_PER_INCH;
+  const perMajor = unit === 'in' ? 8 : 10;
+  const ticks: { position: number; size: 'major' | 'medium' | 'minor'; label?: string }[] = [];
+
+  for (let i = 0; i * step <= length + 0.01; i++) {
+    const position = i * step;
+    if (i % perMajor === 0) {
+      ticks.push({ position, size: 'major', label: String(unit === 'in' ? i / perMajor : i) });
+    } else {
+      ticks.push({ position, size: i % (perMajor / 2) === 0 ? 'medium' : 'minor' });
+    }
+  }
+  return ticks;
+};
+
+// Grid lines across the label, for drawing
+export const getGridLines = (size: DesignSize, gridSize: number) => ({
+  x: Array.from({ length: Math.floor(size.width / gridSize) }, (_, i) => (i + 1) * gridSize).filter(x => x < size.width),
+  y: Array.from({ length: Math.floor(size.height / gridSize) }, (_, i) => (i + 1) * gridSize).filter(y => y < size.height)
+});
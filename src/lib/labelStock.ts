@@ -0,0 +1,194 @@
+import { LabelData, TextEffects, TextStyle } from '@/types/label';
+import {
+  COFFEE_NAME_DEFAULT_FONT_SIZE,
+  COFFEE_NAME_MAX_FONT_SIZE,
+  COFFEE_NAME_MIN_FONT_SIZE,
+  DesignSize,
+  getCoffeeNameEffects
+} from './labelLayout';
+
+// Registry of the physical label stocks we print on. Designs are edited in
+// design units at a fixed 100 units per inch, so a 4 × 6 in label is the
+// familiar 400 × 600 canvas and every other stock scales from there.
+
+export interface LabelStock {
+  id: string;
+  name: string;
+  description: string;
+  widthInches: number;
+  heightInches: number;
+  cornerRadiusInches: number;
+  bleedInches: number;
+  safeMarginInches: number;
+  productWeights: string[]; // Shopify product weights that ship on this stock
+}
+
+export const DESIGN_UNITS_PER_INCH = 100;
+
+export const LABEL_STOCKS: LabelStock[] = [
+  {
+    id: '12oz-bag',
+    name: '12 oz Bag',
+    description: '4 × 6 in',
+    widthInches: 4,
+    heightInches: 6,
+    cornerRadiusInches: 0.125,
+    bleedInches: 0.125,
+    safeMarginInches: 0.125,
+    productWeights: ['12 oz', '12oz']
+  },
+  {
+    id: '2lb-bag',
+    name: '2 lb Bag',
+    description: '4.5 × 7 in',
+    widthInches: 4.5,
+    heightInches: 7,
+    cornerRadiusInches: 0.125,
+    bleedInches: 0.125,
+    safeMarginInches: 0.1875,
+    productWeights: ['2 lb', '2lb', '2 lbs']
+  },
+  {
+    id: '5lb-bag',
+    name: '5 lb Bag',
+    description: '5.5 × 8.5 in',
+    widthInches: 5.5,
+    heightInches: 8.5,
+    cornerRadiusInches: 0.1875,
+    bleedInches: 0.125,
+    safeMarginInches: 0.25,
+    productWeights: ['5 lb', '5lb', '5 lbs']
+  },
+  {
+    id: 'sample-tin',
+    name: 'Sample Tin',
+    description: '3 × 3 in',
+    widthInches: 3,
+    heightInches: 3,
+    cornerRadiusInches: 0.25,
+    bleedInches: 0.0625,
+    safeMarginInches: 0.125,
+    productWeights: ['sample', '2 oz', '2oz']
+  }
+];
+
+export const DEFAULT_LABEL_STOCK_ID = '12oz-bag';
+
+export const getLabelStock = (stockId?: string): LabelStock =>
+  LABEL_STOCKS.find(stock => stock.id === stockId) ||
+  LABEL_STOCKS.find(stock => stock.id === DEFAULT_LABEL_STOCK_ID)!;
+
+export const getStockForWeight = (weight?: string | null): LabelStock => {
+  const normalized = weight?.trim().toLowerCase();
+  return LABEL_STOCKS.find(stock => stock.productWeights.includes(normalized)) || getLabelStock();
+};
+
+export const getStockDesignSize = (stock: LabelStock): DesignSize => ({
+  width: Math.round(stock.widthInches * DESIGN_UNITS_PER_INCH),
+  height: Math.round(stock.heightInches * DESIGN_UNITS_PER_INCH)
+});
+
+export const inchesToDesignUnits = (inches: number) => inches * DESIGN_UNITS_PER_INCH;
+
+// Text sizes in design units follow the label width, like the font size
+const scaleTextStyle = (style: TextStyle | undefined, scale: number) =>
+  style?.letterSpacing ? { ...style, letterSpacing: style.letterSpacing * scale } : style;
+
+const scaleTextEffects = (effects: TextEffects | undefined, scale: number): TextEffects | undefined => effects && {
+  stroke: effects.stroke && { ...effects.stroke, width: effects.stroke.width * scale },
+  shadow: effects.shadow && {
+    ...effects.shadow,
+    offsetX: effects.shadow.offsetX * scale,
+    offsetY: effects.shadow.offsetY * scale,
+    blur: effects.shadow.blur * scale
+  },
+  plate: effects.plate && {
+    ...effects.plate,
+    padding: effects.plate.padding * scale,
+    radius: effects.plate.radius * scale
+  }
+};
+
+// Moves a design onto a different stock, keeping elements in the same
+// relative place and re-cropping the background to the new aspect ratio
+export const changeLabelStock = (labelData: LabelData, stockId: string): LabelData => {
+  const from = getStockDesignSize(getLabelStock(labelData.stockId));
+  const to = getStockDesignSize(getLabelStock(stockId));
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+
+  // Keeps the crop's center and width where the photo allows, narrowing it
+  // when the new shape would need more height than the photo has
+  const backgroundImage = labelData.backgroundImage && (() => {
+    const crop = labelData.backgroundImage;
+    const aspect = to.height / to.width;
+    const width = Math.min(crop.width, crop.originalWidth, crop.originalHeight / aspect);
+    const height = width * aspect;
+    const centerX = crop.x + crop.width / 2;
+    const centerY = crop.y + crop.height / 2;
+    const x = Math.max(0, Math.min(crop.originalWidth - width, centerX - width / 2));
+    const y = Math.max(0, Math.min(crop.originalHeight - height, centerY - height / 2));
+    return { ...crop, x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+  })();
+
+  return {
+    ...labelData,
+    stockId,
+    // Whole sizes within the size slider's range, like pinching gives
+    coffeeNameFontSize: Math.round(Math.max(
+      COFFEE_NAME_MIN_FONT_SIZE,
+      Math.min(COFFEE_NAME_MAX_FONT_SIZE, (labelData.coffeeNameFontSize || COFFEE_NAME_DEFAULT_FONT_SIZE) * scaleX)
+    )),
+    coffeeNameStyle: scaleTextStyle(labelData.coffeeNameStyle, scaleX),
+    // The default outline too, or it would stay the same width
+    coffeeNameEffects: scaleTextEffects(getCoffeeNameEffects(labelData), scaleX),
+    coffeeNamePosition: labelData.coffeeNamePosition && {
+      x: labelData.coffeeNamePosition.x * scaleX,
+      y: labelData.coffeeNamePosition.y * scaleY
+    },
+    coffeeNameWarp: labelData.coffeeNameWarp && {
+      ...labelData.coffeeNameWarp,
+      radius: labelData.coffeeNameWarp.radius * scaleX
+    },
+    backgroundImage,
+    footer: labelData.footer && {
+      ...labelData.footer,
+      x: labelData.footer.x * scaleX,
+      y: labelData.footer.y * scaleY,
+      width: labelData.footer.width * scaleX,
+      height: labelData.footer.height * scaleY,
+      padding: labelData.footer.padding * scaleX,
+      cornerRadius: labelData.footer.cornerRadius * scaleX,
+      lines: labelData.footer.lines.map(line => ({ ...line, fontSize: line.fontSize * scaleX }))
+    },
+    elements: labelData.elements.map(element => {
+      switch (element.kind) {
+        case 'image':
+          // Images keep their aspect ratio, sized like text by the width
+          return {
+            ...element,
+            x: element.x * scaleX,
+            y: element.y * scaleY,
+            width: element.width * scaleX,
+            height: element.height * scaleX
+          };
+        case 'text':
+          return {
+            ...element,
+            x: element.x * scaleX,
+            y: element.y * scaleY,
+            // Height and font size scale with the width so the text wraps
+            // and fills the box the same way on the new stock
+            width: element.width * scaleX,
+            height: element.height * scaleX,
+            fontSize: element.fontSize * scaleX,
+            style: scaleTextStyle(element.style, scaleX),
+            effects: scaleTextEffects(element.effects, scaleX),
+            warp: element.warp && { ...element.warp, radius: element.warp.radius * scaleX }
+          };
+        default:
+          return element;
+      }
+    })
+  };
+};
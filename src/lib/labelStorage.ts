@@ -0,0 +1,337 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { LabelData, ProductInfo } from '@/types/label';
+import { parseLabelDocument, serializeLabel } from './labelSchema';
+
+// Saved label designs. Signed-in users save to the Supabase `labels` table,
+// with uploaded images moved into the label-images bucket so designs don't
+// carry multi-megabyte data URLs around. Offline or signed out, designs are
+// kept on this device in IndexedDB (or localStorage where that's missing).
+// Either way the design is stored as a versioned LabelDocument and migrated
+// and validated when it's opened again.
+
+export type SavedLabelLocation = 'cloud' | 'local';
+
+export interface SavedLabelSummary {
+  id: string;
+  name: string;
+  productName: string | null;
+  productWeight: string | null;
+  updatedAt: string;
+  location: SavedLabelLocation;
+}
+
+export interface SavedLabel extends SavedLabelSummary {
+  data: LabelData;
+}
+
+// As kept on this device; `data` is a LabelDocument
+type StoredLabel = SavedLabelSummary & { data: unknown };
+
+const fromStoredLabel = ({ data, ...summary }: StoredLabel): SavedLabel => ({
+  ...summary,
+  data: parseLabelDocument(data)
+});
+
+export interface SaveLabelInput {
+  // Omit to save as a new design
+  id?: string | null;
+  name: string;
+  productInfo?: ProductInfo | null;
+  data: LabelData;
+}
+
+const IMAGE_BUCKET = 'label-images';
+const LOCAL_ID_PREFIX = 'local-';
+const DB_NAME = 'labelDesigner';
+const DB_STORE = 'labels';
+const LOCAL_STORAGE_KEY = 'labelDesigner.savedLabels';
+
+export const isLocalLabelId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const getCloudUserId = async () => {
+  if (!navigator.onLine) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+// Shopify customers aren't signed in, but the store needs a design it can
+// find again, so they get an anonymous account for the handoff
+export const ensureCloudSession = async () => {
+  const userId = await getCloudUserId();
+  if (userId || !navigator.onLine) return userId;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) {
+    console.error('Anonymous sign-in failed:', error);
+    return null;
+  }
+  return data.user?.id ?? null;
+};
+
+// Local storage
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const readLocalStorage = (): Record<string, StoredLabel> => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Failed to read saved labels:', error);
+    return {};
+  }
+};
+
+const writeLocalStorage = (labels: Record<string, StoredLabel>) => {
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(labels));
+};
+
+// IndexedDB first; localStorage when the browser won't open a database
+const localLabels = {
+  async getAll(): Promise<StoredLabel[]> {
+    try {
+      return await runStoreRequest<StoredLabel[]>('readonly', store => store.getAll());
+    } catch {
+      return Object.values(readLocalStorage());
+    }
+  },
+  async get(id: string): Promise<StoredLabel | null> {
+    try {
+      return (await runStoreRequest<StoredLabel | undefined>('readonly', store => store.get(id))) || null;
+    } catch {
+      return readLocalStorage()[id] || null;
+    }
+  },
+  async put(label: StoredLabel) {
+    try {
+      await runStoreRequest('readwrite', store => store.put(label));
+    } catch {
+      writeLocalStorage({ ...readLocalStorage(), [label.id]: label });
+    }
+  },
+  async delete(id: string) {
+    try {
+      await runStoreRequest('readwrite', store => store.delete(id));
+    } catch {
+      const { [id]: _removed, ...rest } = readLocalStorage();
+      writeLocalStorage(rest);
+    }
+  }
+};
+
+// Cloud storage
+
+const uploadDataUrl = async (dataUrl: string, userId: string) => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(IMAGE_BUCKET).upload(path, blob, { contentType: blob.type });
+  if (error) throw error;
+
+  return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Replaces in-memory data URL images, the background and image elements, with
+// uploaded copies. The same photo used twice is only uploaded once.
+const uploadLabelImages = async (data: LabelData, userId: string): Promise<LabelData> => {
+  const uploads = new Map<string, Promise<string>>();
+  const upload = (url: string) => {
+    if (!url.startsWith('data:')) return Promise.resolve(url);
+    if (!uploads.has(url)) uploads.set(url, uploadDataUrl(url, userId));
+    return uploads.get(url)!;
+  };
+
+  const backgroundImage = data.backgroundImage && { ...data.backgroundImage, url: await upload(data.backgroundImage.url) };
+  const elements = await Promise.all(data.elements.map(async element => (
+    element.kind === 'image' ? { ...element, url: await upload(element.url) } : element
+  )));
+  return { ...data, backgroundImage, elements };
+};
+
+// Uploaded URLs by the data URL they replaced, from a save's input and result
+const getUploadedUrls = (saved: LabelData, savedFrom: LabelData) => {
+  const uploaded = new Map<string, string>();
+  const pair = (from?: string, to?: string) => {
+    if (from?.startsWith('data:') && to && to !== from) uploaded.set(from, to);
+  };
+
+  pair(savedFrom.backgroundImage?.url, saved.backgroundImage?.url);
+  savedFrom.elements.forEach(element => {
+    const savedElement = saved.elements.find(candidate => candidate.id === element.id);
+    if (element.kind === 'image' && savedElement?.kind === 'image') pair(element.url, savedElement.url);
+  });
+  return uploaded;
+};
+
+// Saving uploads data URL images; this points the open design at the uploaded
+// copies so the next save doesn't upload them again. Images changed while
+// saving are left alone.
+export const adoptSavedImages = (current: LabelData, saved: SavedLabel, savedFrom: LabelData): LabelData => {
+  const uploaded = getUploadedUrls(saved.data, savedFrom);
+  if (!uploaded.size) return current;
+
+  const background = current.backgroundImage;
+  return {
+    ...current,
+    backgroundImage: background && uploaded.has(background.url)
+      ? { ...background, url: uploaded.get(background.url)! }
+      : background,
+    elements: current.elements.map(element => (
+      element.kind === 'image' && uploaded.has(element.url) ? { ...element, url: uploaded.get(element.url)! } : element
+    ))
+  };
+};
+
+type LabelRow = {
+  id: string;
+  name: string;
+  product_name: string | null;
+  product_weight: string | null;
+  updated_at: string;
+};
+
+const toSummary = (row: LabelRow): SavedLabelSummary => ({
+  id: row.id,
+  name: row.name,
+  productName: row.product_name,
+  productWeight: row.product_weight,
+  updatedAt: row.updated_at,
+  location: 'cloud'
+});
+
+const saveCloudLabel = async (input: SaveLabelInput, userId: string): Promise<SavedLabel> => {
+  const data = await uploadLabelImages(input.data, userId);
+  const row = {
+    name: input.name,
+    product_name: input.productInfo?.name ?? null,
+    product_weight: input.productInfo?.weight ?? null,
+    data: serializeLabel(data) as unknown as Json
+  };
+
+  const query = input.id && !isLocalLabelId(input.id)
+    ? supabase.from('labels').update(row).eq('id', input.id)
+    : supabase.from('labels').insert(row);
+  const { data: saved, error } = await query.select('id, name, product_name, product_weight, updated_at').single();
+  if (error) throw error;
+
+  return { ...toSummary(saved), data };
+};
+
+const saveLocalLabel = async (input: SaveLabelInput): Promise<SavedLabel> => {
+  const summary: SavedLabelSummary = {
+    id: input.id && isLocalLabelId(input.id) ? input.id : `${LOCAL_ID_PREFIX}${Date.now()}`,
+    name: input.name,
+    productName: input.productInfo?.name ?? null,
+    productWeight: input.productInfo?.weight ?? null,
+    updatedAt: new Date().toISOString(),
+    location: 'local'
+  };
+  await localLabels.put({ ...summary, data: serializeLabel(input.data) });
+  return { ...summary, data: input.data };
+};
+
+// Public API
+
+export const saveLabel = async (input: SaveLabelInput): Promise<SavedLabel> => {
+  const userId = await getCloudUserId();
+
+  if (userId) {
+    try {
+      const saved = await saveCloudLabel(input, userId);
+      // A design first saved on this device has now moved to the account
+      if (input.id && isLocalLabelId(input.id)) await localLabels.delete(input.id);
+      return saved;
+    } catch (error) {
+      console.error('Cloud save failed, saving on this device instead:', error);
+    }
+  }
+
+  return saveLocalLabel(input);
+};
+
+// Saved designs, newest first, optionally only those for one product
+export const listLabels = async (productName?: string | null): Promise<SavedLabelSummary[]> => {
+  const summaries: SavedLabelSummary[] = (await localLabels.getAll()).map(({ data, ...summary }) => summary);
+
+  if (await getCloudUserId()) {
+    let query = supabase.from('labels').select('id, name, product_name, product_weight, updated_at');
+    if (productName) query = query.eq('product_name', productName);
+    const { data: rows, error } = await query;
+    if (error) {
+      console.error('Failed to list saved labels:', error);
+    } else {
+      summaries.push(...rows.map(toSummary));
+    }
+  }
+
+  return summaries
+    .filter(summary => !productName || summary.productName === productName)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadLabel = async (id: string): Promise<SavedLabel | null> => {
+  if (isLocalLabelId(id)) {
+    const stored = await localLabels.get(id);
+    return stored ? fromStoredLabel(stored) : null;
+  }
+
+  const { data: row, error } = await supabase.from('labels').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return row ? { ...toSummary(row), data: parseLabelDocument(row.data) } : null;
+};
+
+// Uploads a preview image for a cloud design, replacing any earlier one, and
+// returns its public URL
+export const saveLabelThumbnail = async (designId: string, thumbnail: Blob): Promise<string> => {
+  const userId = await getCloudUserId();
+  if (!userId || isLocalLabelId(designId)) {
+    throw new Error('Thumbnails are only stored for designs saved to an account');
+  }
+
+  const path = `${userId}/thumbnails/${designId}.png`;
+  const { error } = await supabase.storage
+    .from(IMAGE_BUCKET)
+    .upload(path, thumbnail, { contentType: 'image/png', upsert: true });
+  if (error) throw error;
+
+  // The path is reused on every save, so bust caches with the save time
+  const { publicUrl } = supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data;
+  return `${publicUrl}?v=${Date.now()}`;
+};
+
+export const deleteLabel = async (id: string) => {
+  if (isLocalLabelId(id)) {
+    await localLabels.delete(id);
+    return;
+  }
+
+  const { error } = await supabase.from('labels').delete().eq('id', id);
+  if (error) throw error;
+};
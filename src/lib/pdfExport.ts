@@ -0,0 +1,461 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFName,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  clip,
+  cmyk,
+  concatTransformationMatrix,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setCharacterSpacing,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingColor,
+  setTextRenderingMode
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { ImageBox, LabelData, ProductInfo } from '@/types/label';
+import { RoundedRect, TextRun, computeLabelLayout, createCanvasMeasurer, getCoffeeNameText } from './labelLayout';
+import { loadImage, canvasToBlob } from './labelExport';
+import { LabelStock, getStockDesignSize } from './labelStock';
+import { getFontFileUrl, getGenericFontFamily } from './fontFiles';
+import { getBackgroundPlacement, getFlipScale, toRadians } from './imageTransform';
+
+// Vector PDF export for the print shop. Text is drawn as real text with the
+// font files from public/fonts embedded, photos and logos are embedded at
+// their native resolution, and the page carries bleed, crop marks and the
+// TrimBox/BleedBox entries a digital press expects.
+
+export interface PdfExportOptions {
+  stock: LabelStock;
+  bleedInches?: number | null; // Defaults to the stock's bleed
+  showSafeArea: boolean;
+  cropMarks: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS = {
+  bleedInches: null as number | null,
+  showSafeArea: false,
+  cropMarks: true
+};
+
+export const PDF_BLEED_OPTIONS = [0, 0.0625, 0.125, 0.25];
+
+const POINTS_PER_INCH = 72;
+const CROP_MARK_LENGTH = 18; // 0.25in
+const CROP_MARK_GAP = 3; // Keep marks clear of the bleed edge
+const CROP_MARK_WIDTH = 0.25;
+
+const STANDARD_FONTS = {
+  serif: {
+    regular: StandardFonts.TimesRoman,
+    bold: StandardFonts.TimesRomanBold,
+    italic: StandardFonts.TimesRomanItalic,
+    boldItalic: StandardFonts.TimesRomanBoldItalic
+  },
+  'sans-serif': {
+    regular: StandardFonts.Helvetica,
+    bold: StandardFonts.HelveticaBold,
+    italic: StandardFonts.HelveticaOblique,
+    boldItalic: StandardFonts.HelveticaBoldOblique
+  },
+  monospace: {
+    regular: StandardFonts.Courier,
+    bold: StandardFonts.CourierBold,
+    italic: StandardFonts.CourierOblique,
+    boldItalic: StandardFonts.CourierBoldOblique
+  }
+};
+
+type FontVariant = keyof typeof STANDARD_FONTS['serif'];
+
+// PDF has no blur, so soft shadows are built from copies spread around the
+// offset: the center plus a ring at one standard deviation
+const SHADOW_BLUR_TAPS = [[0, 0], ...Array.from({ length: 8 }, (_, i) => [
+  Math.cos((i * Math.PI) / 4),
+  Math.sin((i * Math.PI) / 4)
+])];
+
+// Slant for italic text in embedded fonts, which ship only the upright style
+const SYNTHETIC_ITALIC_SKEW = Math.tan(toRadians(12));
+// Bold for the same fonts: the glyphs are also stroked in the fill color with a
+// line this wide, as a share of the font size
+const SYNTHETIC_BOLD_STROKE = 0.04;
+
+const parseHexColor = (color: string) => {
+  let hex = color.trim().replace('#', '');
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  const value = parseInt(hex, 16);
+  if (hex.length !== 6 || Number.isNaN(value)) {
+    return rgb(0, 0, 0);
+  }
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// Standard PDF fonts can only encode WinAnsi characters
+const toWinAnsi = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+// Embeds each font file once, however many variants or families share it
+class FontCache {
+  private fonts = new Map<string, Promise<PDFFont | null>>();
+
+  constructor(private pdfDoc: PDFDocument) {}
+
+  async get(fontFamily: string, bold?: boolean, italic?: boolean) {
+    const url = getFontFileUrl(fontFamily);
+    const embedded = url ? await this.cached(url, () => this.embedFile(fontFamily, url)) : null;
+    if (embedded) {
+      return { font: embedded, standard: false };
+    }
+
+    const variant: FontVariant = bold ? (italic ? 'boldItalic' : 'bold') : (italic ? 'italic' : 'regular');
+    const standard = STANDARD_FONTS[getGenericFontFamily(fontFamily)][variant];
+    return { font: await this.cached(standard, () => this.pdfDoc.embedFont(standard)), standard: true };
+  }
+
+  private cached(key: string, load: () => Promise<PDFFont | null>) {
+    if (!this.fonts.has(key)) {
+      this.fonts.set(key, load());
+    }
+    return this.fonts.get(key)!;
+  }
+
+  private async embedFile(fontFamily: string, url: string) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await this.pdfDoc.embedFont(await response.arrayBuffer());
+    } catch (error) {
+      console.warn(`Falling back to a standard font for ${fontFamily}:`, error);
+      return null;
+    }
+  }
+}
+
+const embedImage = async (pdfDoc: PDFDocument, url: string): Promise<PDFImage> => {
+  const bytes = new Uint8Array(await (await fetch(url)).arrayBuffer());
+
+  // PNG and JPEG can be embedded as-is; anything else is re-encoded losslessly
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return pdfDoc.embedPng(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return pdfDoc.embedJpg(bytes);
+  }
+
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')!.drawImage(img, 0, 0);
+  const png = await canvasToBlob(canvas, 'image/png');
+  return pdfDoc.embedPng(await png.arrayBuffer());
+};
+
+const roundedRectPath = (width: number, height: number, radius: number) => {
+  const r = Math.min(radius, width / 2, height / 2);
+  return [
+    `M ${r} 0`,
+    `H ${width - r}`,
+    `A ${r} ${r} 0 0 1 ${width} ${r}`,
+    `V ${height - r}`,
+    `A ${r} ${r} 0 0 1 ${width - r} ${height}`,
+    `H ${r}`,
+    `A ${r} ${r} 0 0 1 0 ${height - r}`,
+    `V ${r}`,
+    `A ${r} ${r} 0 0 1 ${r} 0`,
+    'Z'
+  ].join(' ');
+};
+
+export const exportLabelPdf = async (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  options: PdfExportOptions
+): Promise<Uint8Array> => {
+  const { stock } = options;
+  const designSize = getStockDesignSize(stock);
+
+  const trimWidth = stock.widthInches * POINTS_PER_INCH;
+  const trimHeight = stock.heightInches * POINTS_PER_INCH;
+  const bleed = (options.bleedInches ?? stock.bleedInches) * POINTS_PER_INCH;
+  const margin = bleed + (options.cropMarks ? CROP_MARK_GAP + CROP_MARK_LENGTH + 6 : 0);
+
+  // Points per design unit
+  const scaleX = trimWidth / designSize.width;
+  const scaleY = trimHeight / designSize.height;
+  const toPdfX = (x: number) => margin + x * scaleX;
+  const toPdfY = (y: number) => margin + (designSize.height - y) * scaleY;
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  pdfDoc.setTitle(`${getCoffeeNameText(labelData, productInfo)} label`);
+  pdfDoc.setCreator('Coffee Label Designer');
+
+  const page = pdfDoc.addPage([trimWidth + margin * 2, trimHeight + margin * 2]);
+  page.setTrimBox(margin, margin, trimWidth, trimHeight);
+  page.setBleedBox(margin - bleed, margin - bleed, trimWidth + bleed * 2, trimHeight + bleed * 2);
+
+  // Nothing on the label prints past the bleed into the crop mark area
+  const clipToBleed = () => page.pushOperators(
+    pushGraphicsState(),
+    rectangle(margin - bleed, margin - bleed, trimWidth + bleed * 2, trimHeight + bleed * 2),
+    clip(),
+    endPath()
+  );
+
+  // White label stock plus background photo
+  clipToBleed();
+  page.drawRectangle({
+    x: margin - bleed,
+    y: margin - bleed,
+    width: trimWidth + bleed * 2,
+    height: trimHeight + bleed * 2,
+    color: rgb(1, 1, 1)
+  });
+
+  const bgImage = labelData.backgroundImage;
+  if (bgImage) {
+    const image = await embedImage(pdfDoc, bgImage.url);
+    // The crop rectangle maps onto the full trim area; the rest of the
+    // photo is kept so it can run into the bleed. Work around the label
+    // center in points; PDF angles run counterclockwise.
+    const placement = getBackgroundPlacement(bgImage, designSize);
+    const pointsPerPixelX = placement.scaleX * scaleX;
+    const pointsPerPixelY = placement.scaleY * scaleY;
+    const angle = toRadians(-bgImage.rotation);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(1, 0, 0, 1, toPdfX(designSize.width / 2), toPdfY(designSize.height / 2)),
+      concatTransformationMatrix(cos, sin, -sin, cos, 0, 0),
+      concatTransformationMatrix(placement.flip.x, 0, 0, placement.flip.y, 0, 0)
+    );
+    page.drawImage(image, {
+      x: -placement.cropCenterX * pointsPerPixelX,
+      y: (placement.cropCenterY - bgImage.originalHeight) * pointsPerPixelY,
+      width: bgImage.originalWidth * pointsPerPixelX,
+      height: bgImage.originalHeight * pointsPerPixelY
+    });
+    page.pushOperators(popGraphicsState());
+  }
+
+  page.pushOperators(popGraphicsState());
+
+  const layout = computeLabelLayout(labelData, productInfo, designSize, createCanvasMeasurer());
+  const fonts = new FontCache(pdfDoc);
+
+  // Fill and stroke alpha together; drawText's own opacity leaves outlines opaque
+  const opacityStates = new Map<number, PDFName>();
+  const getOpacityState = (opacity: number) => {
+    if (!opacityStates.has(opacity)) {
+      const state = pdfDoc.context.obj({ Type: 'ExtGState', ca: opacity, CA: opacity });
+      opacityStates.set(opacity, page.node.newExtGState('GS', pdfDoc.context.register(state)));
+    }
+    return opacityStates.get(opacity)!;
+  };
+
+  const drawRun = async (run: TextRun) => {
+    if (!run.text) return;
+
+    const { font, standard } = await fonts.get(run.fontFamily, run.bold, run.italic);
+    const text = standard ? toWinAnsi(run.text) : run.text;
+    const size = run.fontSize * scaleX;
+    const spacing = (run.letterSpacing || 0) * scaleX;
+    const width = font.widthOfTextAtSize(text, size) + spacing * Array.from(text).length;
+    const offset = run.align === 'center' ? -width / 2 : run.align === 'right' ? -width : 0;
+    const boldStroke = run.bold && !standard ? size * SYNTHETIC_BOLD_STROKE : 0;
+
+    // Draw around the anchor so rotated runs turn the same way as on canvas.
+    // (dx, dy) shifts the copy along the page, in points.
+    const angle = toRadians(-(run.rotation || 0));
+    const drawCopy = (dx: number, dy: number, color: string, strokeColor?: string) => {
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(1, 0, 0, 1, toPdfX(run.x) + dx, toPdfY(run.y) + dy),
+        concatTransformationMatrix(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0)
+      );
+      if (run.italic && !standard) {
+        page.pushOperators(concatTransformationMatrix(1, 0, SYNTHETIC_ITALIC_SKEW, 1, 0, 0));
+      }
+      if (spacing) {
+        page.pushOperators(setCharacterSpacing(spacing));
+      }
+      const textOptions = { x: offset, y: 0, size, font, color: parseHexColor(color) };
+
+      // Stroke first and fill on top, matching the canvas strokeText/fillText order
+      if (run.stroke) {
+        page.pushOperators(
+          pushGraphicsState(),
+          setTextRenderingMode(TextRenderingMode.Outline),
+          setStrokingColor(parseHexColor(strokeColor)),
+          // Widened by the faux bold so the outline shows as much around the thicker fill
+          setLineWidth(run.stroke.width * scaleX + boldStroke)
+        );
+        page.drawText(text, textOptions);
+        page.pushOperators(popGraphicsState());
+      }
+      if (boldStroke) {
+        page.pushOperators(
+          pushGraphicsState(),
+          setTextRenderingMode(TextRenderingMode.FillAndOutline),
+          setStrokingColor(parseHexColor(color)),
+          setLineWidth(boldStroke)
+        );
+        page.drawText(text, textOptions);
+        page.pushOperators(popGraphicsState());
+      } else {
+        page.drawText(text, textOptions);
+      }
+      page.pushOperators(popGraphicsState());
+    };
+
+    if (run.shadow) {
+      const { shadow } = run;
+      const spread = (shadow.blur / 2) * scaleX;
+      const taps = spread > 0 ? SHADOW_BLUR_TAPS : SHADOW_BLUR_TAPS.slice(0, 1);
+      // Each copy is faint enough that all of them overlapping reach the shadow's opacity
+      const tapOpacity = 1 - Math.pow(1 - shadow.opacity, 1 / taps.length);
+
+      page.pushOperators(pushGraphicsState(), setGraphicsState(getOpacityState(tapOpacity)));
+      taps.forEach(([tx, ty]) => drawCopy(
+        shadow.offsetX * scaleX + tx * spread,
+        -(shadow.offsetY * scaleX + ty * spread),
+        shadow.color,
+        shadow.color
+      ));
+      page.pushOperators(popGraphicsState());
+    }
+    drawCopy(0, 0, run.color, run.stroke?.color);
+  };
+
+  const drawRoundedRect = (rect: RoundedRect) => {
+    // Rotated rects turn around their center, counterclockwise in PDF terms
+    const angle = toRadians(-(rect.rotation || 0));
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(1, 0, 0, 1, toPdfX(rect.x + rect.width / 2), toPdfY(rect.y + rect.height / 2)),
+      concatTransformationMatrix(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0)
+    );
+    page.drawSvgPath(roundedRectPath(rect.width, rect.height, rect.radius), {
+      x: (-rect.width / 2) * scaleX,
+      y: (rect.height / 2) * scaleX,
+      scale: scaleX,
+      color: parseHexColor(rect.fill),
+      opacity: rect.opacity
+    });
+    page.pushOperators(popGraphicsState());
+  };
+
+  // Image elements are embedded once per URL, at native resolution
+  const images = new Map<string, Promise<PDFImage>>();
+  const drawImageBox = async (box: ImageBox) => {
+    if (!images.has(box.url)) images.set(box.url, embedImage(pdfDoc, box.url));
+    const image = await images.get(box.url)!;
+
+    // Work around the box center in points; PDF angles run counterclockwise
+    const width = box.width * scaleX;
+    const height = box.height * scaleY;
+    const angle = toRadians(-box.rotation);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const flip = getFlipScale(box);
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(1, 0, 0, 1, toPdfX(box.x + box.width / 2), toPdfY(box.y + box.height / 2)),
+      concatTransformationMatrix(cos, sin, -sin, cos, 0, 0),
+      concatTransformationMatrix(flip.x, 0, 0, flip.y, 0, 0),
+      rectangle(-width / 2, -height / 2, width, height),
+      clip(),
+      endPath()
+    );
+
+    // Scale the whole image so the crop fills the clipped box
+    const pointsPerPixelX = width / box.crop.width;
+    const pointsPerPixelY = height / box.crop.height;
+    page.drawImage(image, {
+      x: -width / 2 - box.crop.x * pointsPerPixelX,
+      y: height / 2 + box.crop.y * pointsPerPixelY - image.height * pointsPerPixelY,
+      width: image.width * pointsPerPixelX,
+      height: image.height * pointsPerPixelY,
+      opacity: box.opacity
+    });
+    page.pushOperators(popGraphicsState());
+  };
+
+  clipToBleed();
+  for (const element of layout.elements) {
+    if (element.kind === 'image') {
+      await drawImageBox(element.image);
+      continue;
+    }
+    if (element.kind === 'footer') {
+      drawRoundedRect(element.background);
+    } else if (element.plate) {
+      drawRoundedRect(element.plate);
+    }
+    for (const run of element.runs) {
+      await drawRun(run);
+    }
+  }
+  page.pushOperators(popGraphicsState());
+
+  if (options.showSafeArea) {
+    const safe = stock.safeMarginInches * POINTS_PER_INCH;
+    page.drawRectangle({
+      x: margin + safe,
+      y: margin + safe,
+      width: trimWidth - safe * 2,
+      height: trimHeight - safe * 2,
+      borderColor: rgb(0, 0.6, 1),
+      borderWidth: 0.5,
+      borderDashArray: [4, 3]
+    });
+  }
+
+  if (options.cropMarks) {
+    drawCropMarks(page, margin, trimWidth, trimHeight, bleed);
+  }
+
+  return pdfDoc.save();
+};
+
+const drawCropMarks = (page: PDFPage, margin: number, trimWidth: number, trimHeight: number, bleed: number) => {
+  // Registration black so the marks print on every separation
+  const color = cmyk(1, 1, 1, 1);
+  const offset = bleed + CROP_MARK_GAP;
+  const corners = [
+    { x: margin, y: margin, dx: -1, dy: -1 },
+    { x: margin + trimWidth, y: margin, dx: 1, dy: -1 },
+    { x: margin, y: margin + trimHeight, dx: -1, dy: 1 },
+    { x: margin + trimWidth, y: margin + trimHeight, dx: 1, dy: 1 }
+  ];
+
+  corners.forEach(({ x, y, dx, dy }) => {
+    // Horizontal mark in line with the trim edge
+    page.drawLine({
+      start: { x: x + dx * offset, y },
+      end: { x: x + dx * (offset + CROP_MARK_LENGTH), y },
+      thickness: CROP_MARK_WIDTH,
+      color
+    });
+    // Vertical mark in line with the trim edge
+    page.drawLine({
+      start: { x, y: y + dy * offset },
+      end: { x, y: y + dy * (offset + CROP_MARK_LENGTH) },
+      thickness: CROP_MARK_WIDTH,
+      color
+    });
+  });
+};
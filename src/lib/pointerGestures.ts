@@ -0,0 +1,99 @@
+import type React from 'react';
+
+// Pointer-event drags shared by the canvas editors, so mouse, pen and touch
+// all work the same. A drag follows the pointer that started it; a second
+// finger on the same element turns it into a pinch that scales, rotates and
+// moves by the two fingers' midpoint.
+
+export interface PinchChange {
+  scale: number; // Finger spread relative to the start of the pinch
+  rotation: number; // Degrees turned since the start of the pinch
+  dx: number; // Midpoint movement in client pixels
+  dy: number;
+}
+
+export interface GestureHandlers {
+  onMove: (event: PointerEvent) => void;
+  // Leave out for elements that can't be pinched
+  onPinch?: (change: PinchChange) => void;
+  // Called once, when the last pointer lifts
+  onEnd?: (event: PointerEvent) => void;
+}
+
+interface ActiveGesture {
+  target: EventTarget;
+  handlers: GestureHandlers;
+  pointers: Map<number, { x: number; y: number }>;
+  pinchStart: { distance: number; angle: number; x: number; y: number } | null;
+}
+
+// Only one gesture runs at a time across the editor
+let activeGesture: ActiveGesture | null = null;
+
+const getSpread = (pointers: Map<number, { x: number; y: number }>) => {
+  const [a, b] = [...pointers.values()];
+  return {
+    distance: Math.hypot(b.x - a.x, b.y - a.y),
+    angle: (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI,
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2
+  };
+};
+
+// A second finger on the element being dragged joins its gesture as a pinch.
+// Returns true when it did, so the caller doesn't start a drag of its own.
+export const joinPinch = (e: React.PointerEvent): boolean => {
+  const gesture = activeGesture;
+  if (!gesture || gesture.target !== e.currentTarget || !gesture.handlers.onPinch || gesture.pointers.size !== 1) {
+    return false;
+  }
+
+  e.preventDefault();
+  e.stopPropagation();
+  gesture.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  gesture.pinchStart = getSpread(gesture.pointers);
+  return true;
+};
+
+// Follows a pointer from pointerdown until it lifts or the browser cancels it
+export const trackPointerDrag = (e: React.PointerEvent, handlers: GestureHandlers) => {
+  const gesture: ActiveGesture = {
+    target: e.currentTarget,
+    handlers,
+    pointers: new Map([[e.pointerId, { x: e.clientX, y: e.clientY }]]),
+    pinchStart: null
+  };
+  activeGesture = gesture;
+
+  const handlePointerMove = (moveEvent: PointerEvent) => {
+    if (!gesture.pointers.has(moveEvent.pointerId)) return;
+    gesture.pointers.set(moveEvent.pointerId, { x: moveEvent.clientX, y: moveEvent.clientY });
+
+    if (!gesture.pinchStart) {
+      handlers.onMove(moveEvent);
+    } else if (gesture.pointers.size === 2) {
+      const spread = getSpread(gesture.pointers);
+      handlers.onPinch!({
+        scale: spread.distance / Math.max(gesture.pinchStart.distance, 1),
+        rotation: spread.angle - gesture.pinchStart.angle,
+        dx: spread.x - gesture.pinchStart.x,
+        dy: spread.y - gesture.pinchStart.y
+      });
+    }
+  };
+
+  // Lifting a finger mid-pinch leaves the element where it is until the other
+  // one lifts too
+  const handlePointerUp = (upEvent: PointerEvent) => {
+    if (!gesture.pointers.delete(upEvent.pointerId) || gesture.pointers.size) return;
+    if (activeGesture === gesture) activeGesture = null;
+    document.removeEventListener('pointermove', handlePointerMove);
+    document.removeEventListener('pointerup', handlePointerUp);
+    document.removeEventListener('pointercancel', handlePointerUp);
+    handlers.onEnd?.(upEvent);
+  };
+
+  document.addEventListener('pointermove', handlePointerMove);
+  document.addEventListener('pointerup', handlePointerUp);
+  document.addEventListener('pointercancel', handlePointerUp);
+};
@@ -0,0 +1,173 @@
+import { FooterLine, ProductInfo, ProductInfoFooter } from '@/types/label';
+import { DesignSize } from './labelLayout';
+import { RoastValues } from './roastInfo';
+
+// The product info footer: a block of lines bound to ProductInfo through
+// {placeholders}. Its styling and lines can be saved as a brand-level default
+// so other locations and private-label customers can swap out our details.
+
+// Footer styling and lines without bounds, normalized to a 400-unit wide label
+export type BrandFooterTemplate = Omit<ProductInfoFooter, 'x' | 'y' | 'width' | 'height'>;
+
+export const FOOTER_PLACEHOLDERS = [
+  { token: '{name}', description: 'Coffee name' },
+  { token: '{weight}', description: 'Bag weight' },
+  { token: '{grind}', description: 'Whole Bean / Ground' },
+  { token: '{type}', description: 'Regular / Decaffeinated' },
+  { token: '{price}', description: 'Price' },
+  { token: '{roastDate}', description: 'Roast date' },
+  { token: '{bestBy}', description: 'Best-by date' },
+  { token: '{lot}', description: 'Lot code' }
+];
+
+// Optional roast lines the roast panel can add to or remove from the footer
+export const ROAST_FOOTER_LINES = {
+  bestBy: { id: 'best-by', segments: ['Best By: {bestBy}'] },
+  lot: { id: 'lot-code', segments: ['Lot: {lot}'] }
+};
+
+export const FOOTER_LINE_HEIGHT = 1.25;
+
+const REFERENCE_WIDTH = 400;
+const BRAND_FOOTER_STORAGE_KEY = 'labelDesigner.brandFooter';
+
+export const DEFAULT_FOOTER_TEMPLATE: BrandFooterTemplate = {
+  padding: 10,
+  cornerRadius: 8,
+  fontFamily: 'FertigoPro, serif',
+  color: '#000000',
+  backgroundColor: '#ffffff',
+  backgroundOpacity: 0.7,
+  lines: [
+    // Product details - 11pt (15px at 96dpi), top justified
+    { id: 'product', segments: ['{weight}', '{grind}', '{type}'], fontSize: 15, anchor: 'top' },
+    { id: 'roast-date', segments: ['Roast Date: {roastDate}'], fontSize: 15, anchor: 'top' },
+    // Company info - 8pt (11px at 96dpi), bottom justified
+    { id: 'company', segments: ['JavaMania Coffee Roastery | Libertyville IL'], fontSize: 11, anchor: 'bottom' },
+    { id: 'website', segments: ['www.javamania.com'], fontSize: 11, anchor: 'bottom' },
+    { id: 'ingredients', segments: ['100% Arabica Coffee & Natural Flavors'], fontSize: 11, anchor: 'bottom' }
+  ]
+};
+
+const scaleTemplate = (template: BrandFooterTemplate, scale: number): BrandFooterTemplate => ({
+  ...template,
+  padding: template.padding * scale,
+  cornerRadius: template.cornerRadius * scale,
+  lines: template.lines.map(line => ({ ...line, fontSize: line.fontSize * scale }))
+});
+
+// Builds a footer centered at the bottom of the label. Sizes were designed for
+// the 400-unit wide 12 oz label and scale with the width of other stocks.
+export const createDefaultFooter = (
+  size: DesignSize,
+  template: BrandFooterTemplate = DEFAULT_FOOTER_TEMPLATE
+): ProductInfoFooter => {
+  const scale = size.width / REFERENCE_WIDTH;
+  const width = 320 * scale;
+  const height = 110 * scale;
+
+  return {
+    ...scaleTemplate(template, scale),
+    x: (size.width - width) / 2,
+    y: size.height - height - 10 * scale,
+    width,
+    height
+  };
+};
+
+// Default footer for a new label: the saved brand footer if there is one
+export const createBrandFooter = (size: DesignSize): ProductInfoFooter =>
+  createDefaultFooter(size, loadBrandFooter() || DEFAULT_FOOTER_TEMPLATE);
+
+export const toFooterTemplate = (footer: ProductInfoFooter, size: DesignSize): BrandFooterTemplate => {
+  const { x, y, width, height, ...template } = footer;
+  return scaleTemplate(template, REFERENCE_WIDTH / size.width);
+};
+
+export const createFooterLine = (fontSize: number): FooterLine => ({
+  id: Date.now().toString(),
+  segments: ['New line'],
+  fontSize,
+  anchor: 'bottom'
+});
+
+export const hasFooterLine = (footer: ProductInfoFooter, lineId: string) =>
+  footer.lines.some(line => line.id === lineId);
+
+// Adds or removes a top line, growing or shrinking the block upwards so the
+// new line doesn't collide with the bottom-anchored company info
+export const setFooterLineShown = (
+  footer: ProductInfoFooter,
+  line: Pick<FooterLine, 'id' | 'segments'>,
+  shown: boolean
+): ProductInfoFooter => {
+  if (shown === hasFooterLine(footer, line.id)) return footer;
+
+  if (!shown) {
+    const removed = footer.lines.find(l => l.id === line.id)!;
+    const delta = removed.fontSize * FOOTER_LINE_HEIGHT;
+    return {
+      ...footer,
+      y: footer.y + delta,
+      height: footer.height - delta,
+      lines: footer.lines.filter(l => l.id !== line.id)
+    };
+  }
+
+  const topLines = footer.lines.filter(l => l.anchor === 'top');
+  const fontSize = topLines[topLines.length - 1]?.fontSize || footer.lines[0]?.fontSize || 11;
+  const delta = Math.min(footer.y, fontSize * FOOTER_LINE_HEIGHT);
+  const insertAt = topLines.length ? footer.lines.indexOf(topLines[topLines.length - 1]) + 1 : 0;
+  const lines = [...footer.lines];
+  lines.splice(insertAt, 0, { ...line, fontSize, anchor: 'top' });
+
+  return {
+    ...footer,
+    y: footer.y - delta,
+    height: footer.height + delta,
+    lines
+  };
+};
+
+export const resolveFooterText = (
+  text: string,
+  productInfo: ProductInfo | null | undefined,
+  roastValues: RoastValues
+) => {
+  const displayProductInfo = productInfo || {
+    name: '',
+    weight: '12 oz',
+    grind: 'whole-bean' as const,
+    type: 'regular' as const
+  };
+
+  const values: Record<string, string> = {
+    name: displayProductInfo.name || '',
+    weight: displayProductInfo.weight || '',
+    grind: displayProductInfo.grind === 'whole-bean' ? 'Whole Bean' : 'Ground',
+    type: displayProductInfo.type === 'regular' ? 'Regular' : 'Decaffeinated',
+    price: displayProductInfo.price || '',
+    ...roastValues
+  };
+
+  // Unknown placeholders are left untouched so typos stay visible
+  return text.replace(/\{(\w+)\}/g, (match, key) => (key in values ? values[key] : match));
+};
+
+export const loadBrandFooter = (): BrandFooterTemplate | null => {
+  try {
+    const stored = localStorage.getItem(BRAND_FOOTER_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load brand footer:', error);
+    return null;
+  }
+};
+
+export const saveBrandFooter = (template: BrandFooterTemplate) => {
+  localStorage.setItem(BRAND_FOOTER_STORAGE_KEY, JSON.stringify(template));
+};
+
+export const clearBrandFooter = () => {
+  localStorage.removeItem(BRAND_FOOTER_STORAGE_KEY);
+};
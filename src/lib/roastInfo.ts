@@ -0,0 +1,89 @@
+import { RoastDateFormat, RoastInfo } from '@/types/label';
+
+// Roast date, best-by date and lot code for a label. Dates are stored as
+// YYYY-MM-DD strings and formatted here, so the printed date is the roast day
+// rather than whatever locale and day the label happens to be exported on.
+
+export const ROAST_DATE_FORMATS: { id: RoastDateFormat; label: string }[] = [
+  { id: 'iso', label: 'ISO (2026-10-19)' },
+  { id: 'us', label: 'US (10/19/2026)' },
+  { id: 'month-day', label: 'Month day (Roasted on Oct 19)' }
+];
+
+export const DEFAULT_ROAST_INFO: RoastInfo = {
+  dateFormat: 'us',
+  bestByDays: null
+};
+
+export const DEFAULT_BEST_BY_DAYS = 30;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Parses YYYY-MM-DD as a local calendar date (Date.parse would treat it as UTC)
+export const parseIsoDate = (value?: string | null): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const formatLabelDate = (date: Date, format: RoastDateFormat) => {
+  switch (format) {
+    case 'iso':
+      return toIsoDate(date);
+    case 'month-day':
+      return `${MONTHS[date.getMonth()]} ${date.getDate()}`;
+    case 'us':
+    default:
+      return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+  }
+};
+
+export const getRoastDate = (roast?: RoastInfo) => parseIsoDate(roast?.roastDate) || new Date();
+
+export const getBestByDate = (roast?: RoastInfo): Date | null => {
+  if (!roast?.bestByDays) return null;
+  const bestBy = new Date(getRoastDate(roast));
+  bestBy.setDate(bestBy.getDate() + roast.bestByDays);
+  return bestBy;
+};
+
+// e.g. "261019-ETY" - roast day plus the first letters of the coffee name, so
+// reprints of the same roast get the same code
+export const generateLotCode = (roastDate: Date, coffeeName: string) => {
+  const day = `${pad(roastDate.getFullYear() % 100)}${pad(roastDate.getMonth() + 1)}${pad(roastDate.getDate())}`;
+  const initials = coffeeName
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word[0])
+    .join('')
+    .padEnd(3, 'X')
+    .slice(0, 3);
+  return `${day}-${initials}`;
+};
+
+export interface RoastValues {
+  roastDate: string;
+  bestBy: string;
+  lot: string;
+}
+
+// Formatted values for the {roastDate}, {bestBy} and {lot} footer placeholders
+export const resolveRoastValues = (roastInfo: RoastInfo | undefined, coffeeName: string): RoastValues => {
+  const roast = roastInfo || DEFAULT_ROAST_INFO;
+  const roastDate = getRoastDate(roast);
+  const bestBy = getBestByDate(roast);
+
+  return {
+    roastDate: formatLabelDate(roastDate, roast.dateFormat),
+    bestBy: bestBy ? formatLabelDate(bestBy, roast.dateFormat) : '',
+    lot: roast.lotCode || generateLotCode(roastDate, coffeeName)
+  };
+};
@@ -0,0 +1,185 @@
+import { LabelData, ProductInfo } from '@/types/label';
+import { canvasToBlob } from './labelExport';
+import { loadRenderImages, renderLabel } from './labelRenderer';
+import { getLabelStock, getStockDesignSize, inchesToDesignUnits } from './labelStock';
+import { SavedLabel, ensureCloudSession, saveLabel, saveLabelThumbnail } from './labelStorage';
+
+// Sending a finished design back to the Shopify product page. The product page
+// opens the designer with ?returnUrl=<product page>; once the customer is done
+// the design is saved to the cloud, a thumbnail is uploaded, and the design ID
+// and thumbnail URL go back to the store to be added to the cart as line-item
+// properties. Opened in a popup or iframe, they're posted to the opener;
+// otherwise the designer redirects to the return URL with them in the query.
+
+export type ShopifyReturnMode = 'redirect' | 'postMessage';
+
+export interface ShopifyReturnTarget {
+  url: string;
+  origin: string;
+  mode: ShopifyReturnMode;
+  variantId: string | null; // Passed back so the store adds the right variant
+}
+
+// Every message the designer posts to the store carries this as its
+// `source`, so the store's listener can tell them apart from other messages
+export const DESIGNER_MESSAGE_SOURCE = 'labelDesigner';
+
+// Type of the message posted to the store
+export const DESIGN_SAVED_MESSAGE = 'labelDesigner.designSaved';
+
+export interface ShopifyDesignHandoff {
+  source: typeof DESIGNER_MESSAGE_SOURCE;
+  type: typeof DESIGN_SAVED_MESSAGE;
+  designId: string;
+  thumbnailUrl: string;
+  variantId: string | null;
+  // Ready to pass as `properties` to the store's /cart/add.js
+  properties: Record<string, string>;
+}
+
+// Added to the return URL when redirecting
+export const RETURN_QUERY_PARAMS = {
+  designId: 'labelDesignId',
+  thumbnailUrl: 'labelThumbnail',
+  variantId: 'variant'
+} as const;
+
+// Properties starting with an underscore are hidden from the customer at
+// checkout but shown on the order
+const DESIGN_ID_PROPERTY = '_Label design';
+const THUMBNAIL_PROPERTY = 'Label preview';
+
+// Width of the cart thumbnail, in pixels
+const THUMBNAIL_WIDTH = 400;
+
+// Stores allowed to receive designs and to drive the embedded designer, from
+// VITE_SHOPIFY_STORE_ORIGINS as a comma-separated list of origins
+// (https://shop.example.com). The designer's own origin is always allowed so
+// the mock storefront works in development.
+export const getAllowedStoreOrigins = (): string[] => [
+  window.location.origin,
+  ...(import.meta.env.VITE_SHOPIFY_STORE_ORIGINS || '')
+    .split(',')
+    .map((origin: string) => origin.trim())
+    .filter(Boolean)
+];
+
+// Where to send the design, from the designer's query string. Return URLs on
+// any other origin are ignored so the designer can't be used as an open
+// redirect.
+export const getShopifyReturnTarget = (
+  params: URLSearchParams,
+  allowedOrigins = getAllowedStoreOrigins()
+): ShopifyReturnTarget | null => {
+  const returnUrl = params.get('returnUrl');
+  if (!returnUrl) return null;
+
+  let url: URL;
+  try {
+    url = new URL(returnUrl);
+  } catch {
+    console.error('Ignoring malformed return URL:', returnUrl);
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol) || !allowedOrigins.includes(url.origin)) {
+    console.error('Ignoring return URL for a store that is not allowed:', url.origin);
+    return null;
+  }
+
+  const requestedMode = params.get('returnMode');
+  const hasOpener = !!window.opener || window.parent !== window;
+  const mode: ShopifyReturnMode =
+    requestedMode === 'redirect' || requestedMode === 'postMessage'
+      ? requestedMode
+      : hasOpener ? 'postMessage' : 'redirect';
+
+  return { url: url.href, origin: url.origin, mode, variantId: params.get('variant') };
+};
+
+export const getLineItemProperties = (designId: string, thumbnailUrl: string): Record<string, string> => ({
+  [DESIGN_ID_PROPERTY]: designId,
+  [THUMBNAIL_PROPERTY]: thumbnailUrl
+});
+
+// Small PNG of the label as printed, for the cart and order pages
+export const renderDesignThumbnail = async (labelData: LabelData, productInfo?: ProductInfo | null) => {
+  await document.fonts.ready;
+  const stock = getLabelStock(labelData.stockId);
+  const size = getStockDesignSize(stock);
+  const ratio = THUMBNAIL_WIDTH / size.width;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(size.height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to create a 2D context for the thumbnail');
+  }
+  ctx.scale(ratio, ratio);
+
+  const images = await loadRenderImages(labelData);
+  renderLabel(labelData, productInfo, {
+    size,
+    images,
+    cornerRadius: inchesToDesignUnits(stock.cornerRadiusInches)
+  }, ctx);
+  return canvasToBlob(canvas);
+};
+
+export interface HandOffDesignInput {
+  id?: string | null;
+  name: string;
+  productInfo?: ProductInfo | null;
+  data: LabelData;
+  target: ShopifyReturnTarget;
+}
+
+// Saves the design to the cloud and uploads its thumbnail. A design kept only
+// on this device is no use to the store, so this fails rather than saving
+// locally.
+export const handOffDesign = async ({
+  target,
+  ...input
+}: HandOffDesignInput): Promise<{ design: SavedLabel; handoff: ShopifyDesignHandoff }> => {
+  if (!(await ensureCloudSession())) {
+    throw new Error('Sending a design to the store needs a connection to the design service');
+  }
+
+  const design = await saveLabel(input);
+  if (design.location !== 'cloud') {
+    throw new Error('The design could only be saved on this device');
+  }
+
+  const thumbnailUrl = await saveLabelThumbnail(design.id, await renderDesignThumbnail(input.data, input.productInfo));
+  return {
+    design,
+    handoff: {
+      source: DESIGNER_MESSAGE_SOURCE,
+      type: DESIGN_SAVED_MESSAGE,
+      designId: design.id,
+      thumbnailUrl,
+      variantId: target.variantId,
+      properties: getLineItemProperties(design.id, thumbnailUrl)
+    }
+  };
+};
+
+// Hands the saved design to the product page
+export const returnToStore = (target: ShopifyReturnTarget, handoff: ShopifyDesignHandoff) => {
+  if (target.mode === 'postMessage') {
+    const store = window.opener || (window.parent !== window ? window.parent : null);
+    if (store) {
+      store.postMessage(handoff, target.origin);
+      // A popup has done its job; an embedded designer is closed by the store
+      if (window.opener) window.close();
+      return;
+    }
+    // The opener went away, so fall back to going there
+  }
+
+  const url = new URL(target.url);
+  url.searchParams.set(RETURN_QUERY_PARAMS.designId, handoff.designId);
+  url.searchParams.set(RETURN_QUERY_PARAMS.thumbnailUrl, handoff.thumbnailUrl);
+  if (handoff.variantId) url.searchParams.set(RETURN_QUERY_PARAMS.variantId, handoff.variantId);
+  window.location.assign(url.href);
+};
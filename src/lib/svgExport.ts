@@ -0,0 +1,203 @@
+import { ImageBox, LabelData, ProductInfo } from '@/types/label';
+import { RoundedRect, TextRun, computeLabelLayout, createCanvasMeasurer } from './labelLayout';
+import { LabelStock, getStockDesignSize, inchesToDesignUnits } from './labelStock';
+import { getBackgroundPlacement, getFlipScale } from './imageTransform';
+
+// Serializes a label to a standalone SVG document so designers can finish it
+// in Illustrator or Inkscape. Text stays editable <text>, wrapped exactly like
+// the canvas renderer, and the background photo keeps its crop, rotation and
+// flip via a transform and clipPath.
+
+export interface SvgExportOptions {
+  // Gives the document its physical dimensions (e.g. 4in x 6in) and shape
+  stock: LabelStock;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${typeof value === 'number' ? formatNumber(value) : escapeXml(value)}"`)
+    .join(' ');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+const textElement = (run: TextRun) =>
+  `<text ${attrs({
+    x: run.x,
+    y: run.y,
+    'font-family': run.fontFamily,
+    'font-size': run.fontSize,
+    'font-weight': run.bold ? 'bold' : undefined,
+    'font-style': run.italic ? 'italic' : undefined,
+    'letter-spacing': run.letterSpacing,
+    fill: run.color,
+    'text-anchor': TEXT_ANCHORS[run.align],
+    stroke: run.stroke?.color,
+    'stroke-width': run.stroke?.width,
+    // Canvas strokes first and fills on top
+    'paint-order': run.stroke ? 'stroke' : undefined,
+    transform: run.rotation
+      ? `rotate(${formatNumber(run.rotation)} ${formatNumber(run.x)} ${formatNumber(run.y)})`
+      : undefined,
+    'xml:space': 'preserve'
+  })}>${escapeXml(run.text)}</text>`;
+
+// A blurred copy of the runs, offset along the page axes. The blur uses the
+// canvas convention: shadowBlur is twice the standard deviation.
+const shadowElements = (runs: TextRun[], filterId: string) => {
+  const shadow = runs.find(run => run.shadow)?.shadow;
+  if (!shadow) return [];
+
+  return [
+    `<filter ${attrs({ id: filterId, x: '-50%', y: '-50%', width: '200%', height: '200%' })}>` +
+      `<feGaussianBlur ${attrs({ stdDeviation: shadow.blur / 2 })}/></filter>`,
+    `<g ${attrs({
+      filter: shadow.blur > 0 ? `url(#${filterId})` : undefined,
+      transform: `translate(${formatNumber(shadow.offsetX)} ${formatNumber(shadow.offsetY)})`,
+      opacity: shadow.opacity
+    })}>`,
+    ...runs.map(run => `  ${textElement({
+      ...run,
+      color: shadow.color,
+      stroke: run.stroke && { ...run.stroke, color: shadow.color }
+    })}`),
+    '</g>'
+  ];
+};
+
+const rectElement = (rect: RoundedRect) =>
+  `<rect ${attrs({
+    x: rect.x,
+    y: rect.y,
+    width: rect.width,
+    height: rect.height,
+    rx: rect.radius,
+    ry: rect.radius,
+    fill: rect.fill,
+    'fill-opacity': rect.opacity,
+    transform: rect.rotation
+      ? `rotate(${formatNumber(rect.rotation)} ${formatNumber(rect.x + rect.width / 2)} ${formatNumber(rect.y + rect.height / 2)})`
+      : undefined
+  })}/>`;
+
+// Same order as the canvas: move to the pivot, rotate, flip, move back
+const pivotTransform = (x: number, y: number, rotation: number, flip: { x: number; y: number }) => {
+  if (!rotation && flip.x === 1 && flip.y === 1) return undefined;
+  return [
+    `translate(${formatNumber(x)} ${formatNumber(y)})`,
+    rotation ? `rotate(${formatNumber(rotation)})` : '',
+    flip.x !== 1 || flip.y !== 1 ? `scale(${flip.x} ${flip.y})` : '',
+    `translate(${formatNumber(-x)} ${formatNumber(-y)})`
+  ].filter(Boolean).join(' ');
+};
+
+// A nested <svg> viewport shows just the crop and clips the rest
+const imageBoxElement = (box: ImageBox) =>
+  [
+    `<g ${attrs({
+      id: `image-${box.id}`,
+      transform: pivotTransform(box.x + box.width / 2, box.y + box.height / 2, box.rotation, getFlipScale(box)),
+      opacity: box.opacity < 1 ? box.opacity : undefined
+    })}>`,
+    `  <svg ${attrs({
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      viewBox: [box.crop.x, box.crop.y, box.crop.width, box.crop.height].map(formatNumber).join(' '),
+      preserveAspectRatio: 'none'
+    })}>`,
+    `    <image ${attrs({
+      width: box.originalWidth,
+      height: box.originalHeight,
+      href: box.url,
+      'xlink:href': box.url
+    })}/>`,
+    '  </svg>',
+    '</g>'
+  ];
+
+export const exportLabelSvg = (
+  labelData: LabelData,
+  productInfo: ProductInfo | null | undefined,
+  options: SvgExportOptions
+): string => {
+  const { stock } = options;
+  const designSize = getStockDesignSize(stock);
+  const { width, height } = designSize;
+  const cornerRadius = inchesToDesignUnits(stock.cornerRadiusInches);
+  const layout = computeLabelLayout(labelData, productInfo, designSize, createCanvasMeasurer());
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attrs({
+      width: `${stock.widthInches}in`,
+      height: `${stock.heightInches}in`,
+      viewBox: `0 0 ${width} ${height}`
+    })}>`,
+    `  <defs><clipPath id="label-clip"><rect ${attrs({ x: 0, y: 0, width, height, rx: cornerRadius, ry: cornerRadius })}/></clipPath></defs>`,
+    `  <rect ${attrs({ id: 'label-background', x: 0, y: 0, width, height, rx: cornerRadius, ry: cornerRadius, fill: '#ffffff' })}/>`
+  ];
+
+  const bgImage = labelData.backgroundImage;
+  if (bgImage) {
+    // Place the whole photo so its crop rectangle fills the label, then clip
+    const placement = getBackgroundPlacement(bgImage, designSize);
+    lines.push(
+      `  <g id="background-image" clip-path="url(#label-clip)">`,
+      `    <image ${attrs({
+        x: width / 2 - placement.cropCenterX * placement.scaleX,
+        y: height / 2 - placement.cropCenterY * placement.scaleY,
+        width: bgImage.originalWidth * placement.scaleX,
+        height: bgImage.originalHeight * placement.scaleY,
+        transform: pivotTransform(width / 2, height / 2, bgImage.rotation, placement.flip),
+        preserveAspectRatio: 'none',
+        href: bgImage.url,
+        'xlink:href': bgImage.url
+      })}/>`,
+      '  </g>'
+    );
+  }
+
+  // Elements can hang past the edge, so they're clipped to the die cut too
+  lines.push(
+    '  <g id="elements" clip-path="url(#label-clip)">',
+    ...layout.elements.flatMap(element => {
+      switch (element.kind) {
+        case 'image':
+          return imageBoxElement(element.image).map(line => `    ${line}`);
+        case 'footer':
+          return [
+            '    <g id="product-info">',
+            `      ${rectElement(element.background)}`,
+            ...element.runs.map(run => `      ${textElement(run)}`),
+            '    </g>'
+          ];
+        default: {
+          const id = element.kind === 'coffeeName' ? 'coffee-name' : `text-${element.id}`;
+          return [
+            `    <g ${attrs({ id })}>`,
+            ...(element.plate ? [`      ${rectElement(element.plate)}`] : []),
+            ...shadowElements(element.runs, `${id}-shadow`).map(line => `      ${line}`),
+            ...element.runs.map(run => `      ${textElement(run)}`),
+            '    </g>'
+          ];
+        }
+      }
+    }),
+    '  </g>'
+  );
+  lines.push('</svg>');
+
+  return lines.join('\n');
+};
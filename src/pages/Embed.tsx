@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LabelDesigner } from '@/components/LabelDesigner';
+import { useHistory } from '@/hooks/use-history';
+import { useSavedDesign } from '@/hooks/use-saved-design';
+import { LabelData, ProductInfo } from '@/types/label';
+import { applyProductInfo, applyProductToDesign, createDefaultLabel } from '@/lib/labelDefaults';
+import { parseLabelDocument, serializeLabel } from '@/lib/labelSchema';
+import { loadLabel } from '@/lib/labelStorage';
+import { getAllowedStoreOrigins, getShopifyReturnTarget } from '@/lib/shopifyHandoff';
+import {
+  EMBED_PROTOCOL_VERSION,
+  EmbedEvent,
+  EmbedRequest,
+  createExportFile,
+  getRequestId,
+  parseEmbedRequest,
+  postEmbedEvent
+} from '@/lib/embedProtocol';
+
+// How long editing has to pause before the host hears about the change
+const DESIGN_CHANGED_DELAY = 300;
+
+// The referring page's origin, when it's one we may talk to. The host is
+// normally the page the frame sits in, so this lets `ready` go out before the
+// host has sent anything.
+const getReferrerOrigin = (allowedOrigins: string[]) => {
+  try {
+    const origin = new URL(document.referrer).origin;
+    return allowedOrigins.includes(origin) ? origin : null;
+  } catch {
+    return null;
+  }
+};
+
+// The designer without page chrome, for an iframe in the store theme. The host
+// page drives it over postMessage; see embedProtocol.
+const Embed = () => {
+  const [productInfo, setProductInfo] = useState<ProductInfo | null>(null);
+  const [labelData, setLabelData, history, resetLabelData] = useHistory<LabelData>(createDefaultLabel);
+  const { designId, setDesignId, openDesign, handleDesignSaved } = useSavedDesign(resetLabelData);
+  const [storeReturn] = useState(() => getShopifyReturnTarget(new URLSearchParams(window.location.search)));
+  const [allowedOrigins] = useState(getAllowedStoreOrigins);
+  const hostOriginRef = useRef<string | null>(getReferrerOrigin(allowedOrigins));
+  // The label as first shown isn't a change, so hosts don't see it as unsaved
+  const initialLabelRef = useRef(labelData);
+
+  const postToHost = useCallback((event: EmbedEvent) => {
+    if (hostOriginRef.current && window.parent !== window) {
+      postEmbedEvent(window.parent, hostOriginRef.current, event);
+    }
+  }, []);
+
+  const handleRequest = async (request: EmbedRequest) => {
+    switch (request.type) {
+      case 'setProductInfo':
+        setProductInfo(request.productInfo);
+        if (labelData === initialLabelRef.current) {
+          // Still the starting label, so set it up for the product from scratch
+          initialLabelRef.current = applyProductInfo(labelData, request.productInfo);
+          resetLabelData(initialLabelRef.current);
+        } else {
+          // An open design; this is an edit the user can undo
+          setLabelData(prev => applyProductToDesign(prev, request.productInfo));
+        }
+        break;
+      case 'loadDesign':
+        if (request.designId) {
+          const design = await loadLabel(request.designId);
+          if (!design) throw new Error(`No saved design with ID ${request.designId}`);
+          openDesign(design);
+        } else {
+          setDesignId(null);
+          resetLabelData(parseLabelDocument(request.document));
+        }
+        break;
+      case 'getDesign':
+        postToHost({ type: 'design', requestId: request.requestId, designId, document: serializeLabel(labelData) });
+        break;
+      case 'requestExport': {
+        const { file, mimeType } = await createExportFile(labelData, productInfo, request.format, request.dpi);
+        postToHost({ type: 'exportReady', requestId: request.requestId, format: request.format, mimeType, file });
+        break;
+      }
+    }
+  };
+
+  const handleMessage = async (event: MessageEvent) => {
+    if (event.source !== window.parent || !allowedOrigins.includes(event.origin)) return;
+
+    try {
+      const request = parseEmbedRequest(event.data);
+      if (!request) return;
+      hostOriginRef.current = event.origin;
+      await handleRequest(request);
+    } catch (error) {
+      console.error('Embed request failed:', error);
+      hostOriginRef.current = event.origin;
+      postToHost({
+        type: 'error',
+        requestId: getRequestId(event.data),
+        message: error instanceof Error ? error.message : 'Request failed'
+      });
+    }
+  };
+
+  // The listener is added once; the ref keeps it on the latest state
+  const messageHandlerRef = useRef(handleMessage);
+  messageHandlerRef.current = handleMessage;
+
+  useEffect(() => {
+    const listener = (event: MessageEvent) => messageHandlerRef.current(event);
+    window.addEventListener('message', listener);
+    postToHost({ type: 'ready', version: EMBED_PROTOCOL_VERSION });
+    return () => window.removeEventListener('message', listener);
+  }, [postToHost]);
+
+  useEffect(() => {
+    if (labelData === initialLabelRef.current) return;
+    const timeout = setTimeout(() => {
+      postToHost({ type: 'designChanged', designId, document: serializeLabel(labelData) });
+    }, DESIGN_CHANGED_DELAY);
+    return () => clearTimeout(timeout);
+  }, [labelData, designId, postToHost]);
+
+  return (
+    <div className="min-h-screen bg-background p-2">
+      <LabelDesigner
+        labelData={labelData}
+        onLabelChange={setLabelData}
+        history={history}
+        designId={designId}
+        onDesignSaved={handleDesignSaved}
+        productName={productInfo?.name}
+        productInfo={productInfo}
+        storeReturn={storeReturn}
+        embedded
+      />
+    </div>
+  );
+};
+
+export default Embed;
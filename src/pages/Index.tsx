@@ -1,17 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { LabelDesigner } from '@/components/LabelDesigner';
+import { useHistory } from '@/hooks/use-history';
+import { useSavedDesign } from '@/hooks/use-saved-design';
 import { LabelData, ProductInfo } from '@/types/label';
+import { DEFAULT_ROAST_INFO, parseIsoDate } from '@/lib/roastInfo';
+import { loadLabel } from '@/lib/labelStorage';
+import { applyProductInfo, createDefaultLabel } from '@/lib/labelDefaults';
+import { getShopifyReturnTarget } from '@/lib/shopifyHandoff';
 
 const Index = () => {
   const [productInfo, setProductInfo] = useState<ProductInfo | null>(null);
-  const [labelData, setLabelData] = useState<LabelData>({
-    coffeeName: '',
-    coffeeNameFont: 'serif',
-    coffeeNameColor: '#ffffff',
-    textBoxes: []
-  });
-
-  // Extract product info from URL parameters (from Shopify)
+  const [labelData, setLabelData, history, resetLabelData] = useHistory<LabelData>(createDefaultLabel);
+  const { designId, openDesign, handleDesignSaved } = useSavedDesign(resetLabelData);
+  // Product page to send the finished design back to, from ?returnUrl=
+  const [storeReturn] = useState(() => getShopifyReturnTarget(new URLSearchParams(window.location.search)));
+
+  // Extract product info from URL parameters (from Shopify). This sets up the
+  // label rather than editing it, so it isn't recorded as undoable steps.
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const name = urlParams.get('name');
@@ -20,6 +25,20 @@ const Index = () => {
     const grind = urlParams.get('grind') as 'whole-bean' | 'ground';
     const price = urlParams.get('price');
     const description = urlParams.get('description');
+    const roastDate = urlParams.get('roastDate');
+    const lot = urlParams.get('lot');
+
+    // Roast date (YYYY-MM-DD) and lot code from the roasting schedule
+    if (parseIsoDate(roastDate) || lot) {
+      resetLabelData(prev => ({
+        ...prev,
+        roast: {
+          ...(prev.roast || DEFAULT_ROAST_INFO),
+          ...(parseIsoDate(roastDate) && { roastDate }),
+          ...(lot && { lotCode: lot })
+        }
+      }));
+    }
 
     if (name && weight) {
       const product: ProductInfo = {
@@ -31,13 +50,21 @@ const Index = () => {
         description
       };
       setProductInfo(product);
-      
-      // Auto-set coffee name if not already set
-      if (!labelData.coffeeName) {
-        setLabelData(prev => ({ ...prev, coffeeName: name }));
-      }
+      resetLabelData(prev => applyProductInfo(prev, product));
     }
-  }, []);
+  }, [resetLabelData]);
+
+  // Reopen a saved design from ?design=<id>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('design');
+    if (!id) return;
+
+    loadLabel(id)
+      .then(design => {
+        if (design) openDesign(design);
+      })
+      .catch(error => console.error('Failed to open saved design:', error));
+  }, [openDesign]);
 
   return (
     <div className="min-h-screen bg-gradient-warmth">
@@ -45,8 +72,13 @@ const Index = () => {
         <LabelDesigner
           labelData={labelData}
           onLabelChange={setLabelData}
+          history={history}
+          designId={designId}
+          onDesignSaved={handleDesignSaved}
+          onOpenDesign={openDesign}
           productName={productInfo?.name}
           productInfo={productInfo}
+          storeReturn={storeReturn}
         />
       </div>
     </div>
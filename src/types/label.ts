@@ -1,4 +1,65 @@
-export interface TextBox {
+// Layers panel state, shared by every element in the stack
+export interface LayerState {
+  name?: string; // Defaults to a description of the element
+  hidden?: boolean; // Left out of the canvas and every export
+  locked?: boolean; // Can't be selected or moved on the canvas
+  groupId?: string; // Elements sharing one are selected and moved together
+}
+
+// Bends text along a circle: 'up' arches over the top of the circle, 'down'
+// curves along the bottom like a smile
+export interface TextWarp {
+  radius: number; // Of the first line's baseline, in design units
+  direction: 'up' | 'down';
+}
+
+// Typography shared by text boxes and the coffee name. Unset fields fall back
+// to per-kind defaults in lib/labelLayout.
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  align?: 'left' | 'center' | 'right' | 'justify';
+  letterSpacing?: number; // Extra space after each letter, in design units
+  lineHeight?: number; // Multiple of the font size
+  textTransform?: 'none' | 'uppercase';
+}
+
+export interface TextStroke {
+  color: string;
+  width: number;
+}
+
+export interface TextShadow {
+  color: string;
+  opacity: number; // 0-1
+  offsetX: number;
+  offsetY: number;
+  blur: number; // Like canvas shadowBlur: twice the blur's standard deviation
+}
+
+// Rounded plate drawn behind the text, padded around its letters
+export interface TextPlate {
+  color: string;
+  opacity: number; // 0-1
+  padding: number;
+  radius: number;
+}
+
+// Legibility effects for text over busy photos, all in design units
+export interface TextEffects {
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  plate?: TextPlate;
+}
+
+// What happens to text that needs more height than its box: 'visible' lets it
+// run past the bottom, 'shrink' lowers the font size until it fits, 'clip'
+// keeps the lines that fit and 'ellipsis' also ends the last one with "…".
+// 'fit' ignores fontSize and picks the largest size that fills the box.
+export type TextOverflow = 'visible' | 'shrink' | 'clip' | 'ellipsis' | 'fit';
+
+export interface TextBox extends LayerState {
+  kind: 'text';
   id: string;
   content: string;
   x: number;
@@ -9,27 +70,112 @@ export interface TextBox {
   width: number;
   height: number;
   type?: 'regular' | 'freeText';
+  style?: TextStyle;
+  effects?: TextEffects;
+  overflow?: TextOverflow;
+  rotation?: number; // Degrees clockwise around the box center
+  warp?: TextWarp; // Free text only
 }
 
+// Background photo. x/y/width/height are the crop in source image pixels; the
+// crop always fills the whole label.
 export interface ImageElement {
   url: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  rotation: number;
+  rotation: number; // Degrees clockwise around the crop center
+  flipX?: boolean; // Mirrored around the crop center, before rotating
+  flipY?: boolean;
   originalWidth: number;
   originalHeight: number;
 }
 
+// An image placed on the label, such as a logo, origin illustration or
+// certification badge
+export interface ImageBox extends LayerState {
+  kind: 'image';
+  id: string;
+  url: string;
+  // Placement on the label, in design units
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Part of the source image shown in the box, in source image pixels
+  crop: { x: number; y: number; width: number; height: number };
+  originalWidth: number;
+  originalHeight: number;
+  rotation: number; // Degrees clockwise around the box center
+  flipX?: boolean; // Mirrors the image within the box
+  flipY?: boolean;
+  opacity: number; // 0-1
+}
+
+// The coffee name and product footer keep their settings in their own
+// LabelData fields; these entries only place them in the stack
+export interface CoffeeNameLayer extends LayerState {
+  kind: 'coffeeName';
+  id: string;
+}
+
+export interface FooterLayer extends LayerState {
+  kind: 'footer';
+  id: string;
+}
+
+// Everything drawn over the background shares one stack, listed bottom to top
+export type LabelElement = TextBox | ImageBox | CoffeeNameLayer | FooterLayer;
+
+// A line in the product info footer. Text may contain ProductInfo placeholders
+// such as {weight} or {roastDate}. One segment is centered; two or three are
+// spread across the block as left / (center) / right columns.
+export interface FooterLine {
+  id: string;
+  segments: string[];
+  fontSize: number;
+  anchor: 'top' | 'bottom'; // Stacked down from the top or up from the bottom
+}
+
+export interface ProductInfoFooter {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  padding: number;
+  cornerRadius: number;
+  fontFamily: string;
+  color: string;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  lines: FooterLine[];
+}
+
+export type RoastDateFormat = 'iso' | 'us' | 'month-day';
+
+export interface RoastInfo {
+  roastDate?: string; // YYYY-MM-DD; the day of export when unset
+  dateFormat: RoastDateFormat;
+  bestByDays?: number | null; // Days after roasting; no best-by date when unset
+  lotCode?: string; // Generated from the roast date and coffee name when unset
+}
+
 export interface LabelData {
+  stockId?: string; // Label stock from the registry in lib/labelStock
   coffeeName: string;
   coffeeNameFont: string;
   coffeeNameColor: string;
   coffeeNameFontSize?: number;
+  coffeeNameStyle?: TextStyle;
+  coffeeNameEffects?: TextEffects; // Unset means the classic 2px black outline
   coffeeNamePosition?: { x: number; y: number };
+  coffeeNameRotation?: number; // Degrees clockwise around coffeeNamePosition
+  coffeeNameWarp?: TextWarp;
   backgroundImage?: ImageElement;
-  textBoxes: TextBox[];
+  elements: LabelElement[]; // Holds exactly one coffee name and one footer layer
+  footer?: ProductInfoFooter;
+  roast?: RoastInfo;
 }
 
 export interface ProductInfo {
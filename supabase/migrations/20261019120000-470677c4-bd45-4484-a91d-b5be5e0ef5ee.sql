@@ -0,0 +1,63 @@
+-- Saved label designs. The design itself is stored as JSON; uploaded images
+-- live in the label-images bucket and are referenced from it by URL.
+CREATE TABLE public.labels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  product_name TEXT,
+  product_weight TEXT,
+  data JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX labels_user_product_idx ON public.labels (user_id, product_name);
+
+ALTER TABLE public.labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own labels"
+  ON public.labels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own labels"
+  ON public.labels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own labels"
+  ON public.labels FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own labels"
+  ON public.labels FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_labels_updated_at
+  BEFORE UPDATE ON public.labels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Background images. Public so printed files and Shopify can fetch them;
+-- each user writes only under a folder named after their user id.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('label-images', 'label-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Label images are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'label-images');
+
+CREATE POLICY "Users can upload their own label images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'label-images' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own label images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'label-images' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,5 @@
+-- Design thumbnails for the Shopify cart are re-uploaded to the same path on
+-- every save, which needs update rights on the user's own images.
+CREATE POLICY "Users can update their own label images"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'label-images' AND auth.uid()::text = (storage.foldername(name))[1]);